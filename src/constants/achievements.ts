@@ -63,7 +63,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🌅',
     category: 'special',
     rarity: 'rare',
-    requirement: { type: 'time-based', time: 'morning', days: 7 },
+    requirement: { type: 'time-based', time: 'morning', days: 7, consecutive: true },
     reward: { xp: 200, badge: 'morning-glory' }
   },
   {
@@ -75,6 +75,16 @@ export const ACHIEVEMENTS: Achievement[] = [
     rarity: 'epic',
     requirement: { type: 'time-based', time: 'night', count: 10 },
     reward: { xp: 300, badge: 'night-owl' }
+  },
+  {
+    id: 'quick_responder',
+    name: 'Quick Responder',
+    description: 'Start an exercise within 5 minutes of a reminder 25 times',
+    icon: '⚡',
+    category: 'special',
+    rarity: 'rare',
+    requirement: { type: 'speed', withinMinutes: 5, count: 25 },
+    reward: { xp: 250, badge: 'quick-responder' }
   }
 ];
 
@@ -6,6 +6,7 @@ export const EXERCISES: Exercise[] = [
     id: 'eye_exercise',
     name: '20-20-20 Eye Exercise',
     category: '1min',
+    type: 'eye',
     duration: 60,
     steps: [
       {
@@ -35,6 +36,7 @@ export const EXERCISES: Exercise[] = [
     id: 'neck_stretch',
     name: 'Neck Stretch',
     category: '1min',
+    type: 'stretch',
     duration: 60,
     steps: [
       {
@@ -72,6 +74,7 @@ export const EXERCISES: Exercise[] = [
     id: 'deep_breathing',
     name: 'Deep Breathing Exercise',
     category: '1min',
+    type: 'breathing',
     duration: 60,
     steps: [
       {
@@ -107,6 +110,7 @@ export const EXERCISES: Exercise[] = [
     id: 'desk_squats',
     name: 'Desk Squats',
     category: '3min',
+    type: 'strength',
     duration: 180,
     steps: [
       {
@@ -143,6 +147,7 @@ export const EXERCISES: Exercise[] = [
     id: 'wall_pushups',
     name: 'Wall Pushups',
     category: '3min',
+    type: 'strength',
     duration: 180,
     steps: [
       {
@@ -179,6 +184,7 @@ export const EXERCISES: Exercise[] = [
     id: 'arm_circles',
     name: 'Arm Circles',
     category: '3min',
+    type: 'stretch',
     duration: 180,
     steps: [
       {
@@ -225,6 +231,7 @@ export const EXERCISES: Exercise[] = [
     id: 'walking_break',
     name: 'Walking Break',
     category: '5min',
+    type: 'cardio',
     duration: 300,
     steps: [
       {
@@ -257,6 +264,7 @@ export const EXERCISES: Exercise[] = [
     id: 'stair_climb',
     name: 'Stair Climbing',
     category: '5min',
+    type: 'cardio',
     duration: 300,
     steps: [
       {
@@ -289,6 +297,7 @@ export const EXERCISES: Exercise[] = [
     id: 'stretching_routine',
     name: 'Full Body Stretching',
     category: '5min',
+    type: 'stretch',
     duration: 300,
     steps: [
       {
@@ -339,6 +348,7 @@ export const EXERCISES: Exercise[] = [
     id: 'back_pain_relief',
     name: 'Back Pain Relief Routine',
     category: 'targeted',
+    type: 'stretch',
     duration: 240,
     steps: [
       {
@@ -376,6 +386,7 @@ export const EXERCISES: Exercise[] = [
     id: 'wrist_exercise',
     name: 'Wrist and Hand Exercise',
     category: 'targeted',
+    type: 'stretch',
     duration: 120,
     steps: [
       {
@@ -407,14 +418,30 @@ export const EXERCISES: Exercise[] = [
   }
 ];
 
+let customExercises: Exercise[] = [];
+
+/**
+ * Replace the user-defined exercises merged into the catalogue
+ */
+export function setCustomExercises(exercises: Exercise[]): void {
+  customExercises = exercises;
+}
+
+/**
+ * Get built-in and custom exercises
+ */
+export function getAllExercises(): Exercise[] {
+  return [...EXERCISES, ...customExercises];
+}
+
 export function getExerciseById(id: string): Exercise | undefined {
-  return EXERCISES.find(ex => ex.id === id);
+  return getAllExercises().find(ex => ex.id === id);
 }
 
 export function getExercisesByCategory(category: Exercise['category']): Exercise[] {
-  return EXERCISES.filter(ex => ex.category === category);
+  return getAllExercises().filter(ex => ex.category === category);
 }
 
 export function getExercisesByTargetIssue(issue: string): Exercise[] {
-  return EXERCISES.filter(ex => ex.targetIssues?.includes(issue));
+  return getAllExercises().filter(ex => ex.targetIssues?.includes(issue));
 }
@@ -0,0 +1,163 @@
+import { ChallengePeriod, QuestTemplate } from '../types';
+
+export const QUEST_TEMPLATES: QuestTemplate[] = [
+  // Breaks
+  {
+    id: 'breaks',
+    kind: 'breaks',
+    description: 'Take {target} break{s}',
+    targets: [4, 6, 8],
+    xp: [30, 40, 50]
+  },
+  {
+    id: 'breaks_morning',
+    kind: 'window',
+    description: 'Take {target} break{s} before 11 AM',
+    targets: [1, 1, 2],
+    xp: [15, 20, 30],
+    params: { startHour: 0, endHour: 11 }
+  },
+  {
+    id: 'breaks_afternoon',
+    kind: 'window',
+    description: 'Take {target} break{s} between 1 and 5 PM',
+    targets: [1, 2, 3],
+    xp: [15, 25, 35],
+    params: { startHour: 13, endHour: 17 }
+  },
+  {
+    id: 'post_commit',
+    kind: 'post-commit',
+    description: 'Take {target} break{s} within 15 minutes of a commit',
+    targets: [1, 2, 3],
+    xp: [20, 30, 40],
+    params: { minutes: 15 }
+  },
+  {
+    id: 'no_long_sitting',
+    kind: 'sitting',
+    description: 'Code for {target} minutes without sitting longer than 90 minutes at a stretch',
+    targets: [120, 180, 240],
+    xp: [30, 45, 60],
+    params: { minutes: 90 }
+  },
+
+  // Exercise categories and types
+  {
+    id: 'category_5min',
+    kind: 'category',
+    description: 'Complete {target} 5-minute exercise{s}',
+    targets: [1, 1, 2],
+    xp: [30, 30, 50],
+    params: { category: '5min' }
+  },
+  {
+    id: 'category_3min',
+    kind: 'category',
+    description: 'Complete {target} 3-minute exercise{s}',
+    targets: [1, 2, 3],
+    xp: [20, 30, 40],
+    params: { category: '3min' }
+  },
+  {
+    id: 'type_stretch',
+    kind: 'type',
+    description: 'Do {target} stretching exercise{s}',
+    targets: [2, 3, 4],
+    xp: [20, 30, 40],
+    params: { exerciseType: 'stretch' }
+  },
+  {
+    id: 'type_eye',
+    kind: 'type',
+    description: 'Do {target} eye exercise{s}',
+    targets: [1, 2, 3],
+    xp: [15, 20, 30],
+    params: { exerciseType: 'eye' }
+  },
+  {
+    id: 'type_cardio',
+    kind: 'type',
+    description: 'Do {target} cardio exercise{s}',
+    targets: [1, 2, 3],
+    xp: [20, 30, 40],
+    params: { exerciseType: 'cardio' }
+  },
+
+  // Variety
+  {
+    id: 'variety',
+    kind: 'variety',
+    description: 'Try {target} different exercises',
+    targets: [2, 3, 5],
+    xp: [30, 40, 60]
+  }
+];
+
+export const CHALLENGE_TEMPLATES: Record<ChallengePeriod, QuestTemplate[]> = {
+  week: [
+    {
+      id: 'week_breaks',
+      kind: 'breaks',
+      description: 'Take {target} breaks this week',
+      targets: [15, 20, 30],
+      xp: [100, 150, 200]
+    },
+    {
+      id: 'week_stretch',
+      kind: 'type',
+      description: 'Do {target} stretching exercises this week',
+      targets: [5, 8, 12],
+      xp: [80, 120, 160],
+      params: { exerciseType: 'stretch' }
+    },
+    {
+      id: 'week_5min',
+      kind: 'category',
+      description: 'Complete {target} 5-minute exercises this week',
+      targets: [2, 4, 6],
+      xp: [80, 120, 160],
+      params: { category: '5min' }
+    },
+    {
+      id: 'week_post_commit',
+      kind: 'post-commit',
+      description: 'Take {target} breaks within 15 minutes of a commit this week',
+      targets: [3, 5, 8],
+      xp: [80, 120, 160],
+      params: { minutes: 15 }
+    }
+  ],
+  month: [
+    {
+      id: 'month_breaks',
+      kind: 'breaks',
+      description: 'Take {target} breaks this month',
+      targets: [60, 80, 120],
+      xp: [300, 400, 600]
+    },
+    {
+      id: 'month_variety',
+      kind: 'variety',
+      description: 'Try {target} different exercises this month',
+      targets: [5, 8, 10],
+      xp: [250, 350, 500]
+    },
+    {
+      id: 'month_targeted',
+      kind: 'variety',
+      description: 'Try {target} different targeted exercises this month',
+      targets: [2, 3, 5],
+      xp: [200, 300, 450],
+      params: { category: 'targeted' }
+    },
+    {
+      id: 'month_5min',
+      kind: 'category',
+      description: 'Complete {target} 5-minute exercises this month',
+      targets: [8, 12, 20],
+      xp: [250, 350, 500],
+      params: { category: '5min' }
+    }
+  ]
+};
@@ -0,0 +1,102 @@
+import { ReminderPolicy, ReminderRule } from '../types';
+
+const SUPPRESS_DEBUGGING: ReminderRule = {
+  id: 'suppress_debugging',
+  description: "Don't interrupt debugging",
+  action: 'suppress',
+  when: [{ field: 'isDebugging', op: '==', value: true }]
+};
+
+export const SMART_POLICY: ReminderPolicy = {
+  id: 'smart',
+  name: 'Smart',
+  description: 'Escalating reminders based on sitting time, breaks taken and commits',
+  rules: [
+    SUPPRESS_DEBUGGING,
+    {
+      id: 'strong_120',
+      description: '120+ minutes without a break',
+      action: 'remind',
+      severity: 'strong',
+      when: [{ field: 'consecutiveWorkMinutes', op: '>=', value: 120 }]
+    },
+    {
+      id: 'standard_90',
+      description: '90+ minutes without a break',
+      action: 'remind',
+      severity: 'standard',
+      when: [{ field: 'consecutiveWorkMinutes', op: '>=', value: 90 }]
+    },
+    {
+      id: 'standard_60',
+      description: '60+ minutes without a break, fewer than 8 breaks today',
+      action: 'remind',
+      severity: 'standard',
+      probability: 0.5,
+      when: [
+        { field: 'consecutiveWorkMinutes', op: '>=', value: 60 },
+        { field: 'todayBreakCount', op: '<', value: 8 }
+      ]
+    },
+    {
+      id: 'light_45',
+      description: '45+ minutes without a break, fewer than 8 breaks today',
+      action: 'remind',
+      severity: 'light',
+      probability: 0.5,
+      when: [
+        { field: 'consecutiveWorkMinutes', op: '>=', value: 45 },
+        { field: 'todayBreakCount', op: '<', value: 8 }
+      ]
+    },
+    {
+      id: 'post_commit',
+      description: '1-5 minutes after a commit',
+      action: 'remind',
+      severity: 'light',
+      when: [
+        { field: 'minutesSinceCommit', op: '>', value: 1 },
+        { field: 'minutesSinceCommit', op: '<', value: 5 }
+      ]
+    }
+  ]
+};
+
+/**
+ * Create a fixed-interval policy (used by the 30/60/90 minute frequency settings)
+ */
+export function createFixedPolicy(minutes: number): ReminderPolicy {
+  return {
+    id: `fixed_${minutes}`,
+    name: `Every ${minutes} minutes`,
+    description: `Remind after ${minutes} minutes without a break`,
+    rules: [
+      SUPPRESS_DEBUGGING,
+      {
+        id: 'strong',
+        action: 'remind',
+        severity: 'strong',
+        when: [{ field: 'consecutiveWorkMinutes', op: '>=', value: Math.max(minutes, 120) }]
+      },
+      {
+        id: 'standard',
+        action: 'remind',
+        severity: 'standard',
+        when: [{ field: 'consecutiveWorkMinutes', op: '>=', value: Math.max(minutes, 60) }]
+      },
+      {
+        id: 'light',
+        action: 'remind',
+        severity: 'light',
+        when: [{ field: 'consecutiveWorkMinutes', op: '>=', value: minutes }]
+      }
+    ]
+  };
+}
+
+export const BUILT_IN_POLICIES: ReminderPolicy[] = [
+  SMART_POLICY,
+  createFixedPolicy(30),
+  createFixedPolicy(60),
+  createFixedPolicy(90)
+];
@@ -1,12 +1,31 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { HealthReminderService } from './services/ReminderService';
+import { ReminderPolicyEngine } from './services/ReminderPolicyEngine';
+import { ReminderSimulator } from './services/ReminderSimulator';
 import { ExerciseService } from './services/ExerciseService';
+import { CustomExerciseLoader } from './services/CustomExerciseLoader';
+import { RoutineService } from './services/RoutineService';
+import { DiscomfortTracker } from './services/DiscomfortTracker';
+import { ContextDetector } from './services/ContextDetector';
+import { WorkModeService, WORK_MODES } from './services/WorkModeService';
+import { FlowDetector } from './services/FlowDetector';
+import { WindowCoordinator } from './services/WindowCoordinator';
+import { IdleDetector } from './services/IdleDetector';
+import { WellnessTrackService } from './services/WellnessTrackService';
 import { HealthTracker } from './services/HealthTracker';
+import { PointsLedger } from './services/PointsLedger';
+import { ActivityTracker } from './services/ActivityTracker';
+import { SittingTimeline } from './services/SittingTimeline';
 import { GamificationService } from './services/GamificationService';
 import { GitIntegration } from './services/GitIntegration';
 import { HealthStatusBar } from './ui/StatusBar';
+import { ReminderStatusBar } from './ui/ReminderStatusBar';
+import { WorkModeStatusBar } from './ui/WorkModeStatusBar';
+import { WellnessStatusBar } from './ui/WellnessStatusBar';
 import { StorageManager } from './utils/storage';
 import { FirebaseService } from './services/FirebaseService';
+import { getExerciseById } from './constants/exercises';
 
 let outputChannel: vscode.OutputChannel;
 let firebaseService: FirebaseService;
@@ -29,44 +48,127 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Initialize services in correct order to avoid circular dependencies
 
-    // 1. Initialize HealthTracker and GamificationService first (they have no dependencies on other services)
+    // 1. Initialize ActivityTracker, HealthTracker and GamificationService first (they have no dependencies on other services)
+    outputChannel.appendLine('Initializing ActivityTracker...');
+    const timeline = new SittingTimeline(storage);
+    const activityTracker = new ActivityTracker(context, timeline, outputChannel);
+    activityTracker.start();
+    context.subscriptions.push({ dispose: () => activityTracker.stop() });
+    outputChannel.appendLine('✓ ActivityTracker initialized');
+
+    outputChannel.appendLine('Initializing PointsLedger...');
+    const pointsLedger = new PointsLedger(storage);
+    // Carry over XP and points saved before the ledger existed
+    pointsLedger.migrate().catch((error) => {
+      outputChannel.appendLine(`Points ledger migration error: ${error}`);
+    });
+    outputChannel.appendLine('✓ PointsLedger initialized');
+
     outputChannel.appendLine('Initializing HealthTracker...');
-    const healthTracker = new HealthTracker(context, storage);
+    const healthTracker = new HealthTracker(context, storage, pointsLedger, timeline);
     outputChannel.appendLine('✓ HealthTracker initialized');
 
     outputChannel.appendLine('Initializing GamificationService...');
-    const gamificationService = new GamificationService(context, storage);
+    const gamificationService = new GamificationService(context, storage, pointsLedger);
     outputChannel.appendLine('✓ GamificationService initialized');
 
     // 2. Initialize ExerciseService (it will need references to healthTracker and gamificationService)
+    outputChannel.appendLine('Loading custom exercises...');
+    const customExerciseLoader = new CustomExerciseLoader(outputChannel);
+    customExerciseLoader.load();
+    context.subscriptions.push(customExerciseLoader, customExerciseLoader.watch());
+    outputChannel.appendLine('✓ Custom exercise loading started');
+
     outputChannel.appendLine('Initializing ExerciseService...');
     const exerciseService = new ExerciseService(context);
     outputChannel.appendLine('✓ ExerciseService initialized');
 
+    const routineService = new RoutineService(storage);
+
+    const discomfortTracker = new DiscomfortTracker(storage);
+    discomfortTracker.start();
+    context.subscriptions.push({ dispose: () => discomfortTracker.stop() });
+
     // Set references after initialization
     outputChannel.appendLine('Setting service references...');
     exerciseService.setHealthTracker(healthTracker);
     exerciseService.setGamificationService(gamificationService);
+    exerciseService.setDiscomfortTracker(discomfortTracker);
+    gamificationService.setHealthTracker(healthTracker);
+    healthTracker.setDiscomfortTracker(discomfortTracker);
+    context.subscriptions.push(discomfortTracker.onDidCheckIn(checkIn => {
+      if (checkIn.issues.length > 0) {
+        exerciseService.offerTargetedExercise(checkIn.issues);
+      }
+    }));
     outputChannel.appendLine('✓ Service references set');
 
     // 3. Initialize ReminderService (depends on exerciseService, healthTracker, gamificationService)
+    outputChannel.appendLine('Initializing reminder policies...');
+    const policyEngine = new ReminderPolicyEngine(outputChannel);
+    policyEngine.loadWorkspacePolicies();
+    context.subscriptions.push(policyEngine.watchWorkspacePolicies());
+    outputChannel.appendLine('✓ Reminder policies initialized');
+
     outputChannel.appendLine('Initializing ReminderService...');
     const reminderService = new HealthReminderService(
       context,
       exerciseService,
       healthTracker,
-      gamificationService
+      gamificationService,
+      policyEngine
     );
+    healthTracker.setReminderHistory(reminderService.getHistory());
+    gamificationService.setReminderHistory(reminderService.getHistory());
+    healthTracker.setWorkSchedule(reminderService.getSchedule());
+
+    const contextDetector = new ContextDetector();
+    contextDetector.start();
+    context.subscriptions.push(contextDetector);
+    reminderService.setContextDetector(contextDetector);
+
+    const workModeService = new WorkModeService(storage);
+    workModeService.start();
+    context.subscriptions.push(workModeService);
+    reminderService.setWorkModeService(workModeService);
+
+    const flowDetector = new FlowDetector();
+    flowDetector.start();
+    context.subscriptions.push(flowDetector);
+    reminderService.setFlowDetector(flowDetector);
+
+    // Windows share one reminder schedule; the focused window leads
+    const windowCoordinator = new WindowCoordinator(path.join(context.globalStorageUri.fsPath, 'windows'));
+    reminderService.setWindowCoordinator(windowCoordinator);
+    windowCoordinator.start();
+    context.subscriptions.push(windowCoordinator);
+
+    const idleDetector = new IdleDetector(activityTracker);
+    idleDetector.start();
+    context.subscriptions.push(idleDetector);
+    reminderService.setIdleDetector(idleDetector);
+
+    // Hydration, eye break and posture tracks run alongside exercise reminders
+    const wellnessTracks = new WellnessTrackService(storage, exerciseService);
+    wellnessTracks.setQuietCheck(() => reminderService.isQuietTime());
+    wellnessTracks.start();
+    context.subscriptions.push({ dispose: () => wellnessTracks.stop() });
+    healthTracker.setWellnessTracks(wellnessTracks);
     outputChannel.appendLine('✓ ReminderService initialized');
 
     // 4. Initialize GitIntegration (depends on reminderService)
     outputChannel.appendLine('Initializing GitIntegration...');
     const gitIntegration = new GitIntegration(context, reminderService);
+    reminderService.setGitIntegration(gitIntegration);
     outputChannel.appendLine('✓ GitIntegration initialized');
 
-    // 5. Initialize StatusBar (depends on healthTracker)
+    // 5. Initialize StatusBar (depends on healthTracker and gamificationService)
     outputChannel.appendLine('Initializing StatusBar...');
-    const statusBar = new HealthStatusBar(context, healthTracker);
+    const statusBar = new HealthStatusBar(context, healthTracker, gamificationService);
+    const reminderStatusBar = new ReminderStatusBar(context, reminderService.getQueue(), reminderService.getInbox(), reminderService);
+    context.subscriptions.push(reminderStatusBar, reminderService.getQueue());
+    context.subscriptions.push(new WorkModeStatusBar(context, workModeService));
+    context.subscriptions.push(new WellnessStatusBar(context, wellnessTracks, healthTracker));
     outputChannel.appendLine('✓ StatusBar initialized');
 
     // 6. Initialize FirebaseService (for cloud sync and enterprise features)
@@ -84,6 +186,7 @@ export function activate(context: vscode.ExtensionContext) {
           const email = firebaseService.getUserEmail();
           const licenseType = firebaseService.getLicenseType();
           outputChannel.appendLine(`Signed in as: ${email} (License: ${licenseType})`);
+          syncUserProfile(reminderService);
         } else {
           outputChannel.appendLine('Session restore failed');
         }
@@ -102,6 +205,15 @@ export function activate(context: vscode.ExtensionContext) {
       throw error;
     }
 
+    // Unlock achievements already earned in the existing history
+    gamificationService.backfillAchievements().then((unlocked) => {
+      if (unlocked.length > 0) {
+        outputChannel.appendLine(`✓ Backfilled achievements: ${unlocked.map(a => a.id).join(', ')}`);
+      }
+    }).catch((error) => {
+      outputChannel.appendLine(`Achievement backfill error: ${error}`);
+    });
+
     // Enable git integration if configured
     try {
       outputChannel.appendLine('Checking Git integration config...');
@@ -171,11 +283,10 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-      vscode.commands.registerCommand('codefit.snooze', () => {
+      vscode.commands.registerCommand('codefit.snooze', async () => {
         outputChannel.appendLine('Command: snooze triggered');
         try {
-          reminderService.snooze(30); // 30 minutes
-          vscode.window.showInformationMessage('CodeFit reminders snoozed for 30 minutes');
+          await reminderService.showSnoozeMenu();
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
           outputChannel.appendLine(`Error in snooze: ${errorMsg}`);
@@ -184,6 +295,20 @@ export function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.cancelSnooze', () => {
+        outputChannel.appendLine('Command: cancelSnooze triggered');
+        try {
+          reminderService.cancelSnooze();
+          vscode.window.showInformationMessage('CodeFit reminders resumed');
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in cancelSnooze: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to cancel snooze: ${errorMsg}`);
+        }
+      })
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand('codefit.viewStats', () => {
         outputChannel.appendLine('Command: viewStats triggered');
@@ -197,6 +322,108 @@ export function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.createRoutine', async () => {
+        outputChannel.appendLine('Command: createRoutine triggered');
+        try {
+          const routine = await routineService.showRoutineBuilder();
+          if (routine) {
+            const response = await vscode.window.showInformationMessage(`Start "${routine.name}" now?`, 'Start', 'Later');
+            if (response === 'Start') {
+              await exerciseService.executeRoutine(routine);
+            }
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in createRoutine: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to create routine: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.startRoutine', async () => {
+        outputChannel.appendLine('Command: startRoutine triggered');
+        try {
+          const routine = await routineService.pickRoutine('Choose a routine');
+          if (routine) {
+            await exerciseService.executeRoutine(routine);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in startRoutine: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to start routine: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.deleteRoutine', async () => {
+        outputChannel.appendLine('Command: deleteRoutine triggered');
+        try {
+          const routine = await routineService.pickRoutine('Choose a routine to delete');
+          if (routine) {
+            await routineService.deleteRoutine(routine.id);
+            vscode.window.showInformationMessage(`Routine "${routine.name}" deleted`);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in deleteRoutine: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to delete routine: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.checkIn', async () => {
+        outputChannel.appendLine('Command: checkIn triggered');
+        try {
+          const checkIn = await discomfortTracker.showCheckIn();
+          if (checkIn && checkIn.issues.length === 0) {
+            vscode.window.showInformationMessage('Glad you feel good! 💚');
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in checkIn: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to check in: ${errorMsg}`);
+        }
+      }),
+
+      // The keybinding passes true, since it only applies outside Zen mode
+      vscode.commands.registerCommand('codefit.toggleZenMode', async (entering?: boolean) => {
+        outputChannel.appendLine('Command: toggleZenMode triggered');
+        try {
+          const enabled = typeof entering === 'boolean' ? entering : !contextDetector.isZenMode();
+          await vscode.commands.executeCommand('workbench.action.toggleZenMode');
+          contextDetector.setZenMode(enabled);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in toggleZenMode: ${errorMsg}`);
+        }
+      }),
+
+      vscode.commands.registerCommand('codefit.exitZenMode', async () => {
+        outputChannel.appendLine('Command: exitZenMode triggered');
+        try {
+          await vscode.commands.executeCommand('workbench.action.exitZenMode');
+          contextDetector.setZenMode(false);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in exitZenMode: ${errorMsg}`);
+        }
+      }),
+
+      vscode.commands.registerCommand('codefit.togglePairing', () => {
+        outputChannel.appendLine('Command: togglePairing triggered');
+        const pairing = contextDetector.togglePairing();
+        vscode.window.showInformationMessage(
+          pairing
+            ? '👥 Pairing session started. Break reminders will follow your pairing settings.'
+            : '👤 Pairing session ended.'
+        );
+      })
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand('codefit.pauseReminders', () => {
         outputChannel.appendLine('Command: pauseReminders triggered');
@@ -217,6 +444,121 @@ export function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.showReminderActions', async () => {
+        outputChannel.appendLine('Command: showReminderActions triggered');
+        try {
+          await reminderService.showActiveReminderActions();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in showReminderActions: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to show reminder: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.openReminderInbox', async () => {
+        outputChannel.appendLine('Command: openReminderInbox triggered');
+        try {
+          await reminderService.showReminderInbox();
+          reminderStatusBar.update();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in openReminderInbox: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to open reminder inbox: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.logWater', async () => {
+        outputChannel.appendLine('Command: logWater triggered');
+        try {
+          await wellnessTracks.logWater();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in logWater: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to log water: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.takeEyeBreak', async () => {
+        outputChannel.appendLine('Command: takeEyeBreak triggered');
+        try {
+          await wellnessTracks.takeEyeBreak();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in takeEyeBreak: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to start eye break: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.logPostureCheck', async () => {
+        outputChannel.appendLine('Command: logPostureCheck triggered');
+        try {
+          await wellnessTracks.logPostureCheck();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in logPostureCheck: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to log posture check: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.selectReminderPolicy', async () => {
+        outputChannel.appendLine('Command: selectReminderPolicy triggered');
+        try {
+          const policy = await policyEngine.selectPolicy();
+          if (policy) {
+            vscode.window.showInformationMessage(`CodeFit reminder policy: ${policy.name}`);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in selectReminderPolicy: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to select reminder policy: ${errorMsg}`);
+        }
+      }),
+
+      vscode.commands.registerCommand('codefit.selectWorkMode', async () => {
+        outputChannel.appendLine('Command: selectWorkMode triggered');
+        try {
+          const mode = await workModeService.selectMode();
+          if (mode) {
+            vscode.window.showInformationMessage(`CodeFit work mode: ${WORK_MODES.find(m => m.mode === mode)?.name}`);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in selectWorkMode: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to select work mode: ${errorMsg}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.simulateReminders', async () => {
+        outputChannel.appendLine('Command: simulateReminders triggered');
+        try {
+          const simulator = new ReminderSimulator(
+            context,
+            healthTracker,
+            gamificationService,
+            outputChannel
+          );
+          await simulator.showSimulationPicker();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in simulateReminders: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to simulate reminders: ${errorMsg}`);
+        }
+      })
+    );
+
     // Additional commands for gamification
     context.subscriptions.push(
       vscode.commands.registerCommand('codefit.viewAchievements', () => {
@@ -244,6 +586,19 @@ export function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('codefit.viewChallenges', async () => {
+        outputChannel.appendLine('Command: viewChallenges triggered');
+        try {
+          await gamificationService.showChallenges();
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          outputChannel.appendLine(`Error in viewChallenges: ${errorMsg}`);
+          vscode.window.showErrorMessage(`Failed to view challenges: ${errorMsg}`);
+        }
+      })
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand('codefit.exportData', () => {
         outputChannel.appendLine('Command: exportData triggered');
@@ -281,6 +636,7 @@ export function activate(context: vscode.ExtensionContext) {
 
             // Update status bar
             statusBar.update();
+            syncUserProfile(reminderService);
           } else {
             vscode.window.showErrorMessage('Sign in failed. Please try again.');
           }
@@ -342,12 +698,15 @@ export function activate(context: vscode.ExtensionContext) {
                 try {
                   await firebaseService.logActivity({
                     type: 'exercise',
-                    exerciseId: activity.exercise?.id,
-                    exerciseName: activity.exercise?.name,
-                    category: activity.exercise?.category,
+                    exerciseId: activity.exerciseId,
+                    exerciseName: activity.exerciseName,
+                    category: activity.exerciseId ? getExerciseById(activity.exerciseId)?.category : undefined,
                     duration: activity.duration || 0,
                     source: 'vscode',
-                    completedFully: activity.completed || false,
+                    completedFully: activity.completionStatus === 'completed',
+                    completionStatus: activity.completionStatus,
+                    stepsCompleted: activity.stepsCompleted,
+                    totalSteps: activity.totalSteps,
                   });
                   synced++;
 
@@ -436,6 +795,20 @@ export function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Use the signed-in user's profile time zone for the working-hours schedule
+ */
+async function syncUserProfile(reminderService: HealthReminderService) {
+  try {
+    const me = await firebaseService.getMe();
+    if (me?.profile?.timezone) {
+      await reminderService.getSchedule().setProfile(me.profile);
+    }
+  } catch (error) {
+    outputChannel.appendLine(`Profile sync error: ${error}`);
+  }
+}
+
 async function showWelcomeMessage(storage: StorageManager) {
   const response = await vscode.window.showInformationMessage(
     'Welcome to CodeFit! 💚 Stay healthy while coding. Visit www.codefit.ai to learn more. Would you like to take a quick tour?',
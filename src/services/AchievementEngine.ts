@@ -0,0 +1,189 @@
+import { format, differenceInCalendarDays } from 'date-fns';
+import { Activity, AchievementHistory, AchievementProgress, AchievementRequirement } from '../types';
+
+type TimeOfDay = NonNullable<AchievementRequirement['time']>;
+
+// Start (inclusive) and end (exclusive) hour; night wraps past midnight
+const TIME_WINDOWS: Record<TimeOfDay, [number, number]> = {
+  morning: [6, 10],
+  afternoon: [12, 17],
+  evening: [17, 22],
+  night: [22, 6]
+};
+
+const DEFAULT_SPEED_MINUTES = 5;
+
+/**
+ * Format progress as e.g. "4/7 days"
+ */
+export function formatProgress(progress: AchievementProgress): string {
+  return `${progress.current}/${progress.target} ${progress.unit}`;
+}
+
+/**
+ * Evaluates achievement requirements against the activity and reminder history.
+ *
+ * - `streak`: the current or longest daily streak reaches `days`
+ * - `count`: `break` counts sessions (a routine is one break, partial
+ *   attempts count); `exercise` counts fully completed exercises
+ * - `time-based`: exercises in a time of day, either on `days` distinct
+ *   (optionally consecutive) days or `count` separate sessions
+ * - `speed`: exercises started within `withinMinutes` of a reminder
+ * - `social`: sessions tied to a team (`action: 'team'`), a challenge
+ *   (`action: 'challenge'`) or either
+ */
+export class AchievementEngine {
+  /**
+   * Measure progress towards a requirement
+   */
+  evaluate(requirement: AchievementRequirement, history: AchievementHistory): AchievementProgress {
+    const { current, target } = this.measure(requirement, history);
+    return {
+      current: Math.min(current, target),
+      target,
+      percent: target > 0 ? Math.min(100, Math.floor(current / target * 100)) : 0,
+      unit: this.getUnit(requirement),
+      met: target > 0 && current >= target
+    };
+  }
+
+  /**
+   * Progress for an achievement that is already unlocked
+   */
+  complete(requirement: AchievementRequirement): AchievementProgress {
+    const target = requirement.days || requirement.count || requirement.target || 1;
+    return { current: target, target, percent: 100, unit: this.getUnit(requirement), met: true };
+  }
+
+  private measure(req: AchievementRequirement, history: AchievementHistory): { current: number; target: number } {
+    const sessions = history.activities.filter(a => a.completionStatus !== 'abandoned');
+    const exercises = history.activities.filter(a => a.completionStatus === 'completed');
+
+    switch (req.type) {
+      case 'streak':
+        return { current: Math.max(history.streak, history.longestStreak), target: req.days || 0 };
+
+      case 'count':
+        if (req.action === 'break') {
+          return { current: this.countSessions(sessions), target: req.count || 0 };
+        }
+        if (req.action === 'exercise') {
+          return { current: exercises.length, target: req.count || 0 };
+        }
+        return { current: 0, target: req.count || 0 };
+
+      case 'time-based':
+        return this.measureTimeOfDay(req, exercises);
+
+      case 'speed':
+        return { current: this.countQuickStarts(history, exercises, req.withinMinutes || DEFAULT_SPEED_MINUTES), target: req.count || 0 };
+
+      case 'social': {
+        const social = sessions.filter(a =>
+          req.action === 'team' ? !!a.teamId : req.action === 'challenge' ? !!a.challengeId : !!(a.teamId || a.challengeId)
+        );
+        return { current: this.countSessions(social), target: req.count || 0 };
+      }
+
+      default:
+        return { current: 0, target: 0 };
+    }
+  }
+
+  private getUnit(req: AchievementRequirement): string {
+    switch (req.type) {
+      case 'streak':
+        return 'days';
+      case 'count':
+        return req.action === 'exercise' ? 'exercises' : 'breaks';
+      case 'time-based':
+        return req.days ? (req.consecutive ? 'days in a row' : 'days') : 'sessions';
+      case 'speed':
+        return 'quick starts';
+      default:
+        return 'breaks';
+    }
+  }
+
+  /**
+   * Exercises in a time of day, by day or by session
+   */
+  private measureTimeOfDay(req: AchievementRequirement, exercises: Activity[]): { current: number; target: number } {
+    if (!req.time) {
+      return { current: 0, target: 0 };
+    }
+
+    const matching = exercises.filter(a => this.isInWindow(new Date(a.startedAt), req.time!));
+
+    if (req.days) {
+      const days = Array.from(new Set(matching.map(a => format(this.getLogicalDay(new Date(a.startedAt), req.time!), 'yyyy-MM-dd')))).sort();
+      return { current: req.consecutive ? this.getLongestRun(days) : days.length, target: req.days };
+    }
+
+    return { current: this.countSessions(matching), target: req.count || 0 };
+  }
+
+  /**
+   * Reminders answered by starting an exercise within the given minutes;
+   * each reminder and each exercise counts once
+   */
+  private countQuickStarts(history: AchievementHistory, exercises: Activity[], minutes: number): number {
+    const starts = exercises.map(a => new Date(a.startedAt).getTime()).sort((a, b) => a - b);
+    const shown = history.reminders.map(r => new Date(r.shownAt).getTime()).sort((a, b) => a - b);
+    const windowMs = minutes * 60 * 1000;
+
+    let count = 0;
+    let next = 0;
+    for (const at of shown) {
+      while (next < starts.length && starts[next] < at) {
+        next++;
+      }
+      if (next < starts.length && starts[next] - at <= windowMs) {
+        count++;
+        next++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Count breaks, treating the exercises of one routine as a single break
+   */
+  private countSessions(activities: Activity[]): number {
+    return new Set(activities.map(a => a.routineId || a.id)).size;
+  }
+
+  private isInWindow(date: Date, time: TimeOfDay): boolean {
+    const [start, end] = TIME_WINDOWS[time];
+    const hour = date.getHours();
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  }
+
+  /**
+   * The day a session belongs to: early hours of a night count towards the evening before
+   */
+  private getLogicalDay(date: Date, time: TimeOfDay): Date {
+    const [start, end] = TIME_WINDOWS[time];
+    if (start > end && date.getHours() < end) {
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+    }
+    return date;
+  }
+
+  /**
+   * Longest run of consecutive days in a sorted list of yyyy-MM-dd dates
+   */
+  private getLongestRun(days: string[]): number {
+    let longest = 0;
+    let run = 0;
+    let previous: Date | undefined;
+
+    for (const day of days) {
+      const date = new Date(`${day}T00:00:00`);
+      run = previous && differenceInCalendarDays(date, previous) === 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = date;
+    }
+    return longest;
+  }
+}
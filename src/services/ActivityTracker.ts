@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { CodingSession, TimelineEntry } from '../types';
+import { SittingTimeline } from './SittingTimeline';
+import { format } from 'date-fns';
+
+/**
+ * Tracks real active time at the editor from editor signals
+ * (edits, selections, editor switches, terminal input, window focus).
+ *
+ * Signals closer together than the idle threshold extend the current
+ * session; a longer gap closes it and the next signal opens a new one.
+ * Sessions are written to the sitting timeline as work entries, and the
+ * gaps between them as idle entries. Other services that need to know when
+ * the user last did something listen to `onDidRecordSignal`.
+ */
+export class ActivityTracker {
+  private currentSession?: CodingSession;
+  private lastSignalTime?: Date;
+  private lastSessionEnd?: Date;
+  private flushInterval?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+  private onDidRecordSignalEmitter = new vscode.EventEmitter<Date>();
+
+  /** Fires for every editor signal */
+  readonly onDidRecordSignal = this.onDidRecordSignalEmitter.event;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private timeline: SittingTimeline,
+    private outputChannel?: vscode.OutputChannel
+  ) {}
+
+  /**
+   * Start listening to editor signals
+   */
+  start(): void {
+    this.disposables.push(
+      this.onDidRecordSignalEmitter,
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.contentChanges.length > 0) {
+          this.recordSignal();
+        }
+      }),
+      vscode.window.onDidChangeTextEditorSelection(() => this.recordSignal()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.recordSignal()),
+      vscode.window.onDidChangeActiveTerminal(() => this.recordSignal()),
+      vscode.window.onDidChangeTerminalState(() => this.recordSignal()),
+      vscode.window.onDidChangeWindowState((state) => {
+        // `active` (VS Code 1.89+) turns true again as soon as the user interacts
+        const { active } = state as vscode.WindowState & { active?: boolean };
+        if (state.focused && active !== false) {
+          this.recordSignal();
+        } else if (!state.focused) {
+          this.closeSession();
+        }
+      })
+    );
+
+    if (vscode.window.state.focused) {
+      this.recordSignal();
+    }
+
+    // Persist the open session every minute so a crash loses little
+    this.flushInterval = setInterval(() => {
+      this.checkIdle();
+      this.persistCurrentSession();
+    }, 60000);
+
+    this.context.subscriptions.push(...this.disposables);
+  }
+
+  /**
+   * Stop tracking and persist the open session
+   */
+  stop(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+
+    this.closeSession();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Record an editor signal
+   */
+  recordSignal(time: Date = new Date()): void {
+    if (
+      this.currentSession &&
+      this.lastSignalTime &&
+      time.getTime() - this.lastSignalTime.getTime() <= this.getIdleThresholdMs() &&
+      format(time, 'yyyy-MM-dd') === format(this.currentSession.start, 'yyyy-MM-dd')
+    ) {
+      this.currentSession.end = time;
+    } else {
+      this.closeSession();
+      this.recordIdleGap(time);
+      this.currentSession = { start: time, end: time };
+    }
+
+    this.lastSignalTime = time;
+    this.timeline.setOpenWorkEntry({ type: 'work', ...this.currentSession });
+    this.onDidRecordSignalEmitter.fire(time);
+  }
+
+  /**
+   * Check whether the user is currently active at the editor
+   */
+  isActive(): boolean {
+    return this.currentSession !== undefined;
+  }
+
+  /**
+   * Get the time of the last editor signal
+   */
+  getLastSignalTime(): Date | undefined {
+    return this.lastSignalTime;
+  }
+
+  /**
+   * Record the gap since the previous session as idle time
+   */
+  private recordIdleGap(time: Date): void {
+    if (!this.lastSessionEnd) {
+      return;
+    }
+
+    const gap = time.getTime() - this.lastSessionEnd.getTime();
+    const sameDay = format(time, 'yyyy-MM-dd') === format(this.lastSessionEnd, 'yyyy-MM-dd');
+
+    if (sameDay && gap >= this.getIdleThresholdMs()) {
+      this.saveEntry({ type: 'idle', start: this.lastSessionEnd, end: time });
+    }
+  }
+
+  /**
+   * Close the idle session if the threshold has passed since the last signal
+   */
+  private checkIdle(): void {
+    if (!this.lastSignalTime) {
+      return;
+    }
+
+    if (Date.now() - this.lastSignalTime.getTime() > this.getIdleThresholdMs()) {
+      this.closeSession();
+    }
+  }
+
+  /**
+   * Close the current session and persist it
+   */
+  private closeSession(): void {
+    if (!this.currentSession) {
+      return;
+    }
+
+    const session = this.currentSession;
+    this.currentSession = undefined;
+    this.lastSessionEnd = session.end;
+    this.timeline.setOpenWorkEntry(undefined);
+    this.saveEntry({ type: 'work', ...session });
+  }
+
+  /**
+   * Persist the open session without closing it
+   */
+  private persistCurrentSession(): void {
+    if (this.currentSession) {
+      this.saveEntry({ type: 'work', ...this.currentSession });
+    }
+  }
+
+  /**
+   * Write an entry to the sitting timeline, logging a failed write
+   */
+  private saveEntry(entry: TimelineEntry): void {
+    this.timeline.addEntry(entry).catch((error) => {
+      this.outputChannel?.appendLine(`Failed to save ${entry.type} entry to the sitting timeline: ${error}`);
+    });
+  }
+
+  /**
+   * Get idle threshold in milliseconds
+   */
+  getIdleThresholdMs(): number {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const minutes = config.get<number>('tracking.idleThreshold', 5);
+    return Math.max(1, minutes) * 60 * 1000;
+  }
+}
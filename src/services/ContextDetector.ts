@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import { ContextBehavior, EditorContextKind } from '../types';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export const CONTEXT_LABELS: Record<EditorContextKind, string> = {
+  zenMode: 'Zen mode',
+  liveShare: 'Live Share session',
+  pairing: 'pairing',
+  terminalHeavy: 'terminal work',
+  tasksRunning: 'running task'
+};
+
+const DEFAULT_BEHAVIOR: Record<EditorContextKind, ContextBehavior> = {
+  zenMode: 'defer',
+  liveShare: 'defer',
+  pairing: 'defer',
+  terminalHeavy: 'none',
+  tasksRunning: 'defer'
+};
+
+const LIVE_SHARE_EXTENSION_ID = 'ms-vsliveshare.vsliveshare';
+
+/** Zen mode is assumed over this long after it was last seen, so a missed exit can't defer reminders forever */
+const ZEN_MODE_LEASE_MS = 90 * 60 * 1000;
+
+/** Subset of the Live Share extension API we rely on */
+interface LiveShareApi {
+  session: { id: string | null };
+  peers: unknown[];
+  onDidChangeSession: vscode.Event<unknown>;
+  onDidChangePeers: vscode.Event<unknown>;
+}
+
+/**
+ * Detects editor contexts in which a reminder would be disruptive:
+ * Zen mode, Live Share sessions, pairing, terminal-heavy work and running tasks.
+ *
+ * VS Code doesn't expose Zen mode state, so it is tracked through the CodeFit
+ * Zen mode commands. The flag starts off, is only set once the workbench command
+ * succeeded, and lapses after ZEN_MODE_LEASE_MS, so a Zen mode exit CodeFit
+ * didn't see only delays reminders for a while.
+ */
+export class ContextDetector {
+  private zenModeSince?: number;
+  private zenModeExpiry?: TimerHandle;
+  private manualPairing = false;
+  private liveShare?: LiveShareApi;
+  private lastEditorSignal = 0;
+  private lastTerminalSignal = 0;
+  private activeSignature = '';
+  private disposables: vscode.Disposable[] = [];
+  private onDidChangeEmitter = new vscode.EventEmitter<EditorContextKind[]>();
+
+  /** Fires with the active contexts whenever the set changes */
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Start listening for context changes
+   */
+  start(): void {
+    const editorSignal = () => {
+      this.lastEditorSignal = this.clock.now().getTime();
+      this.refresh();
+    };
+    const terminalSignal = () => {
+      this.lastTerminalSignal = this.clock.now().getTime();
+      this.refresh();
+    };
+
+    this.disposables.push(
+      this.onDidChangeEmitter,
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          editorSignal();
+        }
+      }),
+      vscode.window.onDidChangeTextEditorSelection(editorSignal),
+      vscode.window.onDidChangeActiveTextEditor(editorSignal),
+      vscode.window.onDidOpenTerminal(terminalSignal),
+      vscode.window.onDidChangeActiveTerminal(terminalSignal),
+      vscode.window.onDidChangeTerminalState(terminalSignal),
+      vscode.window.onDidCloseTerminal(() => this.refresh()),
+      vscode.window.onDidChangeWindowState(() => this.refresh()),
+      vscode.tasks.onDidStartTask(() => this.refresh()),
+      vscode.tasks.onDidEndTask(() => this.refresh())
+    );
+
+    this.connectLiveShare();
+  }
+
+  /**
+   * Record Zen mode being turned on or off
+   */
+  setZenMode(enabled: boolean): void {
+    this.zenModeExpiry?.cancel();
+    this.zenModeExpiry = undefined;
+    this.zenModeSince = enabled ? this.clock.now().getTime() : undefined;
+
+    if (enabled) {
+      this.zenModeExpiry = this.clock.setTimeout(() => this.setZenMode(false), ZEN_MODE_LEASE_MS);
+    }
+    this.refresh();
+  }
+
+  isZenMode(): boolean {
+    return this.zenModeSince !== undefined &&
+      this.clock.now().getTime() - this.zenModeSince < ZEN_MODE_LEASE_MS;
+  }
+
+  /**
+   * Toggle a manually declared pairing session; returns the new state
+   */
+  togglePairing(): boolean {
+    this.manualPairing = !this.manualPairing;
+    this.refresh();
+    return this.manualPairing;
+  }
+
+  isLiveShare(): boolean {
+    return !!this.liveShare?.session.id;
+  }
+
+  /**
+   * Pairing: a Live Share session with other participants, or declared manually
+   */
+  isPairing(): boolean {
+    return this.manualPairing || (this.isLiveShare() && (this.liveShare?.peers.length || 0) > 0);
+  }
+
+  /**
+   * The terminal has been used more recently than any editor while the window is focused
+   */
+  isTerminalHeavy(): boolean {
+    return vscode.window.state.focused &&
+      vscode.window.activeTerminal !== undefined &&
+      this.lastTerminalSignal > this.lastEditorSignal;
+  }
+
+  /**
+   * A foreground task (build, test, ...) is running; background watchers don't count
+   */
+  isTaskRunning(): boolean {
+    return vscode.tasks.taskExecutions.some(execution => !execution.task.isBackground);
+  }
+
+  /**
+   * Get the contexts that are currently active
+   */
+  getActiveContexts(): EditorContextKind[] {
+    const checks: Record<EditorContextKind, () => boolean> = {
+      zenMode: () => this.isZenMode(),
+      liveShare: () => this.isLiveShare(),
+      pairing: () => this.isPairing(),
+      terminalHeavy: () => this.isTerminalHeavy(),
+      tasksRunning: () => this.isTaskRunning()
+    };
+
+    return (Object.keys(checks) as EditorContextKind[]).filter(kind => checks[kind]());
+  }
+
+  /**
+   * Get the configured behavior for a context
+   */
+  getBehavior(kind: EditorContextKind): ContextBehavior {
+    const configured = vscode.workspace.getConfiguration('codefit')
+      .get<Partial<Record<EditorContextKind, ContextBehavior>>>('reminder.contextBehavior', {});
+    return configured[kind] || DEFAULT_BEHAVIOR[kind];
+  }
+
+  /**
+   * Active contexts that suppress or defer reminders, strongest behavior first
+   */
+  getBlockingContexts(): { behavior: Exclude<ContextBehavior, 'none'>; contexts: EditorContextKind[] } | undefined {
+    const active = this.getActiveContexts();
+
+    for (const behavior of ['suppress', 'defer'] as const) {
+      const contexts = active.filter(kind => this.getBehavior(kind) === behavior);
+      if (contexts.length > 0) {
+        return { behavior, contexts };
+      }
+    }
+
+    return undefined;
+  }
+
+  dispose(): void {
+    this.zenModeExpiry?.cancel();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Fire onDidChange if the set of active contexts changed
+   */
+  private refresh(): void {
+    const active = this.getActiveContexts();
+    const signature = active.join(',');
+
+    if (signature !== this.activeSignature) {
+      this.activeSignature = signature;
+      this.onDidChangeEmitter.fire(active);
+    }
+  }
+
+  /**
+   * Subscribe to Live Share session and participant changes, if it is installed
+   */
+  private async connectLiveShare(): Promise<void> {
+    const extension = vscode.extensions.getExtension(LIVE_SHARE_EXTENSION_ID);
+    if (!extension) {
+      return;
+    }
+
+    try {
+      const exports = extension.isActive ? extension.exports : await extension.activate();
+      const api: LiveShareApi | undefined = await exports?.getApi?.('1.0.0');
+      if (!api) {
+        return;
+      }
+
+      this.liveShare = api;
+      this.disposables.push(
+        api.onDidChangeSession(() => this.refresh()),
+        api.onDidChangePeers(() => this.refresh())
+      );
+      this.refresh();
+    } catch (error) {
+      console.error('CodeFit: Live Share API unavailable', error);
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Exercise, ExerciseType } from '../types';
+import { EXERCISES, setCustomExercises } from '../constants/exercises';
+
+const CATEGORIES: Exercise['category'][] = ['1min', '3min', '5min', 'targeted'];
+const TYPES: ExerciseType[] = ['stretch', 'cardio', 'breathing', 'strength', 'eye'];
+const DIFFICULTIES: Exercise['difficulty'][] = ['easy', 'medium', 'hard'];
+const ANIMATION_TYPES: Exercise['animation']['type'][] = ['gif', 'video', 'lottie'];
+const FILE_GLOB = '*.{json,yaml,yml}';
+const WORKSPACE_FOLDER = '.codefit/exercises';
+
+/**
+ * Loads user-defined exercises from the workspace `.codefit/exercises`
+ * folder and the user exercise directory, reports problems as diagnostics
+ * and merges valid entries into the exercise catalogue.
+ */
+export class CustomExerciseLoader {
+  private diagnostics = vscode.languages.createDiagnosticCollection('codefit-exercises');
+
+  constructor(private outputChannel?: vscode.OutputChannel) {}
+
+  /**
+   * Discover, validate and register custom exercises
+   */
+  async load(): Promise<Exercise[]> {
+    this.diagnostics.clear();
+
+    const seenIds = new Set(EXERCISES.map(ex => ex.id));
+    const exercises: Exercise[] = [];
+
+    for (const uri of await this.findFiles()) {
+      exercises.push(...await this.loadFile(uri, seenIds));
+    }
+
+    setCustomExercises(exercises);
+    if (exercises.length > 0) {
+      this.log(`Loaded ${exercises.length} custom ${exercises.length === 1 ? 'exercise' : 'exercises'}: ${exercises.map(ex => ex.id).join(', ')}`);
+    }
+
+    return exercises;
+  }
+
+  /**
+   * Reload custom exercises when files or the directory setting change
+   */
+  watch(): vscode.Disposable {
+    const workspaceWatcher = this.createWatcher(`**/${WORKSPACE_FOLDER}/${FILE_GLOB}`);
+    let userWatcher = this.createWatcher(new vscode.RelativePattern(this.getUserDirectory(), FILE_GLOB));
+
+    const configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('codefit.exercise.customDirectory')) {
+        userWatcher.dispose();
+        userWatcher = this.createWatcher(new vscode.RelativePattern(this.getUserDirectory(), FILE_GLOB));
+        this.load();
+      }
+    });
+
+    return new vscode.Disposable(() => {
+      workspaceWatcher.dispose();
+      userWatcher.dispose();
+      configListener.dispose();
+    });
+  }
+
+  /**
+   * Get the user-level exercise directory
+   */
+  getUserDirectory(): vscode.Uri {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const configured = config.get<string>('exercise.customDirectory', '').trim();
+
+    if (!configured) {
+      return vscode.Uri.file(path.join(os.homedir(), '.codefit', 'exercises'));
+    }
+
+    return vscode.Uri.file(configured.replace(/^~(?=$|[\\/])/, os.homedir()));
+  }
+
+  private createWatcher(pattern: vscode.GlobPattern): vscode.FileSystemWatcher {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const reload = () => this.load();
+    watcher.onDidCreate(reload);
+    watcher.onDidChange(reload);
+    watcher.onDidDelete(reload);
+    return watcher;
+  }
+
+  dispose(): void {
+    this.diagnostics.dispose();
+  }
+
+  /**
+   * List exercise files in the workspace folders and the user directory
+   */
+  private async findFiles(): Promise<vscode.Uri[]> {
+    const directories = (vscode.workspace.workspaceFolders || [])
+      .map(folder => vscode.Uri.joinPath(folder.uri, WORKSPACE_FOLDER));
+    directories.push(this.getUserDirectory());
+
+    const files: vscode.Uri[] = [];
+    for (const directory of directories) {
+      let entries: [string, vscode.FileType][];
+      try {
+        entries = await vscode.workspace.fs.readDirectory(directory);
+      } catch {
+        continue; // Folder doesn't exist
+      }
+
+      entries
+        .filter(([name, type]) => type === vscode.FileType.File && /\.(json|ya?ml)$/i.test(name))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([name]) => files.push(vscode.Uri.joinPath(directory, name)));
+    }
+
+    return files;
+  }
+
+  /**
+   * Parse and validate a single exercise file
+   */
+  private async loadFile(uri: vscode.Uri, seenIds: Set<string>): Promise<Exercise[]> {
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (error) {
+      this.log(`Could not read ${uri.fsPath}: ${error}`);
+      return [];
+    }
+
+    let raw: any;
+    try {
+      raw = /\.json$/i.test(uri.path) ? JSON.parse(text) : yaml.load(text);
+    } catch (error: any) {
+      const line = error instanceof yaml.YAMLException ? error.mark?.line ?? 0 : this.getJsonErrorLine(text, error);
+      this.report(uri, [this.createDiagnostic(line, `Could not parse exercise file: ${error.reason || error.message}`)]);
+      return [];
+    }
+
+    const candidates: any[] = Array.isArray(raw) ? raw
+      : Array.isArray(raw?.exercises) ? raw.exercises
+      : raw ? [raw] : [];
+
+    const exercises: Exercise[] = [];
+    const problems: vscode.Diagnostic[] = [];
+
+    candidates.forEach((candidate, index) => {
+      const label = typeof candidate?.id === 'string' ? `"${candidate.id}"` : `#${index + 1}`;
+      const line = this.findEntryLine(text, candidate);
+      const errors = validateExercise(candidate);
+
+      if (errors.length === 0 && seenIds.has(candidate.id)) {
+        errors.push(`id "${candidate.id}" is already used by another exercise`);
+      }
+
+      if (errors.length > 0) {
+        for (const error of errors) {
+          problems.push(this.createDiagnostic(line, `Exercise ${label}: ${error}`));
+        }
+        this.log(`Ignoring invalid exercise ${label} in ${uri.fsPath}:\n  ${errors.join('\n  ')}`);
+        return;
+      }
+
+      seenIds.add(candidate.id);
+      exercises.push(normalizeExercise(candidate, uri));
+    });
+
+    this.report(uri, problems);
+    return exercises;
+  }
+
+  /**
+   * Publish diagnostics for a file and surface a single warning
+   */
+  private report(uri: vscode.Uri, problems: vscode.Diagnostic[]): void {
+    if (problems.length === 0) {
+      return;
+    }
+
+    this.diagnostics.set(uri, problems);
+    vscode.window.showWarningMessage(
+      `CodeFit: ${problems.length} problem${problems.length === 1 ? '' : 's'} in custom exercises ${path.basename(uri.fsPath)}`,
+      'Open File'
+    ).then(action => {
+      if (action === 'Open File') {
+        vscode.window.showTextDocument(uri);
+      }
+    });
+  }
+
+  private createDiagnostic(line: number, message: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+      message,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'CodeFit';
+    return diagnostic;
+  }
+
+  /**
+   * Find the line that declares an entry's id, falling back to the top of the file
+   */
+  private findEntryLine(text: string, candidate: any): number {
+    if (typeof candidate?.id !== 'string') {
+      return 0;
+    }
+
+    const escaped = candidate.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`["']?id["']?\\s*:\\s*["']?${escaped}\\b`).exec(text);
+    return match ? text.slice(0, match.index).split('\n').length - 1 : 0;
+  }
+
+  /**
+   * Map a JSON.parse position ("at position N") to a line number
+   */
+  private getJsonErrorLine(text: string, error: Error): number {
+    const match = /position (\d+)/.exec(error.message);
+    return match ? text.slice(0, parseInt(match[1])).split('\n').length - 1 : 0;
+  }
+
+  private log(message: string): void {
+    this.outputChannel?.appendLine(message);
+  }
+}
+
+/**
+ * Validate a raw custom exercise, returning a list of problems
+ */
+export function validateExercise(raw: any): string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['must be an object'];
+  }
+
+  if (typeof raw.id !== 'string' || !/^[a-z0-9_-]+$/.test(raw.id)) {
+    errors.push('id must be a string of lowercase letters, digits, "-" or "_"');
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!CATEGORIES.includes(raw.category)) {
+    errors.push(`category must be one of ${CATEGORIES.join(', ')}`);
+  }
+  if (raw.type !== undefined && !TYPES.includes(raw.type)) {
+    errors.push(`type must be one of ${TYPES.join(', ')}`);
+  }
+  if (raw.duration !== undefined && !isPositiveNumber(raw.duration)) {
+    errors.push('duration must be a positive number of seconds');
+  }
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    errors.push('steps must be a non-empty list');
+  } else {
+    raw.steps.forEach((step: any, index: number) => {
+      if (typeof step?.instruction !== 'string' || !step.instruction.trim()) {
+        errors.push(`steps[${index}].instruction is required`);
+      }
+      if (!isPositiveNumber(step?.duration)) {
+        errors.push(`steps[${index}].duration must be a positive number of seconds`);
+      }
+      if (step?.image !== undefined && typeof step.image !== 'string') {
+        errors.push(`steps[${index}].image must be a string`);
+      }
+    });
+  }
+
+  for (const field of ['benefits', 'targetIssues', 'equipment']) {
+    if (raw[field] !== undefined && !isStringList(raw[field])) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+
+  if (raw.difficulty !== undefined && !DIFFICULTIES.includes(raw.difficulty)) {
+    errors.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  if (raw.caloriesBurn !== undefined && (typeof raw.caloriesBurn !== 'number' || raw.caloriesBurn < 0)) {
+    errors.push('caloriesBurn must be a non-negative number');
+  }
+  if (raw.animation !== undefined) {
+    if (!ANIMATION_TYPES.includes(raw.animation?.type)) {
+      errors.push(`animation.type must be one of ${ANIMATION_TYPES.join(', ')}`);
+    }
+    if (typeof raw.animation?.url !== 'string') {
+      errors.push('animation.url must be a string');
+    }
+  }
+  if (raw.voiceGuidance !== undefined && typeof raw.voiceGuidance !== 'string') {
+    errors.push('voiceGuidance must be a string');
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in defaults and resolve media paths relative to the defining file
+ */
+export function normalizeExercise(raw: any, fileUri: vscode.Uri): Exercise {
+  const directory = path.dirname(fileUri.fsPath);
+  const resolveMedia = (url: string) =>
+    /^https?:\/\//.test(url) || path.isAbsolute(url) ? url : path.join(directory, url);
+
+  const steps = raw.steps.map((step: any) => ({
+    instruction: step.instruction,
+    duration: step.duration,
+    ...(step.image ? { image: resolveMedia(step.image) } : {})
+  }));
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    category: raw.category,
+    type: raw.type,
+    duration: raw.duration ?? steps.reduce((sum: number, step: { duration: number }) => sum + step.duration, 0),
+    steps,
+    benefits: raw.benefits ?? [],
+    targetIssues: raw.targetIssues,
+    difficulty: raw.difficulty ?? 'easy',
+    equipment: raw.equipment ?? [],
+    caloriesBurn: raw.caloriesBurn ?? 0,
+    animation: raw.animation
+      ? { type: raw.animation.type, url: raw.animation.url ? resolveMedia(raw.animation.url) : '' }
+      : { type: 'gif', url: '' },
+    voiceGuidance: raw.voiceGuidance,
+    sourceFile: fileUri.fsPath
+  };
+}
+
+function isPositiveNumber(value: any): boolean {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+function isStringList(value: any): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
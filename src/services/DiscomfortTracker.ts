@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { addDays, format, startOfDay } from 'date-fns';
+import { DiscomfortCheckIn } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export const DISCOMFORT_AREAS = [
+  { issue: 'eye-strain', label: 'Eyes', icon: '👀' },
+  { issue: 'neck-pain', label: 'Neck', icon: '🦒' },
+  { issue: 'wrist-pain', label: 'Wrists', icon: '✋' },
+  { issue: 'back-pain', label: 'Back', icon: '🪑' },
+  { issue: 'stress', label: 'Stress', icon: '😮‍💨' }
+];
+
+const RETENTION_DAYS = 90;
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Asks the user what's bothering them and keeps a per-issue history
+ */
+export class DiscomfortTracker {
+  private timer?: TimerHandle;
+  private onDidCheckInEmitter = new vscode.EventEmitter<DiscomfortCheckIn>();
+
+  /** Fires after every check-in, including "all good" ones */
+  readonly onDidCheckIn = this.onDidCheckInEmitter.event;
+
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Start prompting for periodic check-ins (if enabled)
+   */
+  start(): void {
+    this.timer = this.clock.setInterval(() => this.promptIfDue(), CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.timer?.cancel();
+    this.timer = undefined;
+    this.onDidCheckInEmitter.dispose();
+  }
+
+  /**
+   * Show the check-in quick pick
+   */
+  async showCheckIn(): Promise<DiscomfortCheckIn | undefined> {
+    const recent = new Set(this.getRecentIssues());
+    const items = DISCOMFORT_AREAS.map(area => ({
+      label: `${area.icon} ${area.label}`,
+      description: recent.has(area.issue) ? 'Reported recently' : undefined,
+      issue: area.issue
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'CodeFit Check-in',
+      placeHolder: 'Anything bothering you? Select all that apply, or none if you feel fine',
+      canPickMany: true
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+
+    return this.recordCheckIn(selected.map(item => item.issue));
+  }
+
+  /**
+   * Record a check-in
+   */
+  async recordCheckIn(issues: string[]): Promise<DiscomfortCheckIn> {
+    const checkIn: DiscomfortCheckIn = { reportedAt: this.clock.now(), issues };
+    const cutoff = addDays(this.clock.now(), -RETENTION_DAYS).getTime();
+
+    const checkIns = this.getCheckIns().filter(c => c.reportedAt.getTime() >= cutoff);
+    checkIns.push(checkIn);
+
+    await this.storage.set('discomfortCheckIns', checkIns);
+    await this.storage.set('discomfortLastPrompt', checkIn.reportedAt.getTime());
+    this.onDidCheckInEmitter.fire(checkIn);
+
+    return checkIn;
+  }
+
+  /**
+   * Get all stored check-ins, oldest first
+   */
+  getCheckIns(): DiscomfortCheckIn[] {
+    const stored = this.storage.get<DiscomfortCheckIn[]>('discomfortCheckIns') || [];
+    return stored.map(c => ({ ...c, reportedAt: new Date(c.reportedAt) }));
+  }
+
+  /**
+   * Issues reported in the last N days, most frequent first
+   */
+  getRecentIssues(days: number = 7): string[] {
+    const cutoff = addDays(this.clock.now(), -days).getTime();
+    const counts = new Map<string, number>();
+
+    for (const checkIn of this.getCheckIns()) {
+      if (checkIn.reportedAt.getTime() < cutoff) {
+        continue;
+      }
+      for (const issue of checkIn.issues) {
+        counts.set(issue, (counts.get(issue) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([issue]) => issue);
+  }
+
+  /**
+   * Daily report counts per issue for the last N days (oldest day first)
+   */
+  getIssueHistory(days: number = 14): Record<string, Array<{ date: Date; count: number }>> {
+    const today = startOfDay(this.clock.now());
+    const dates = Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+    const history: Record<string, Array<{ date: Date; count: number }>> = {};
+
+    for (const checkIn of this.getCheckIns()) {
+      const index = dates.findIndex(d => format(d, 'yyyy-MM-dd') === format(checkIn.reportedAt, 'yyyy-MM-dd'));
+      if (index < 0) {
+        continue;
+      }
+
+      for (const issue of checkIn.issues) {
+        if (!history[issue]) {
+          history[issue] = dates.map(date => ({ date, count: 0 }));
+        }
+        history[issue][index].count++;
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Prompt for a check-in when enabled and the interval has passed
+   */
+  private async promptIfDue(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('codefit');
+    if (!config.get<boolean>('checkIn.enabled', false)) {
+      return;
+    }
+
+    const intervalHours = config.get<number>('checkIn.intervalHours', 3);
+    const lastPrompt = this.storage.get<number>('discomfortLastPrompt', 0);
+    const now = this.clock.now().getTime();
+
+    if (now - lastPrompt < intervalHours * 60 * 60 * 1000) {
+      return;
+    }
+
+    // Count a dismissed prompt as a prompt so we don't nag
+    await this.storage.set('discomfortLastPrompt', now);
+
+    const response = await vscode.window.showInformationMessage(
+      '🩺 Anything bothering you? Eyes, neck, wrists, back?',
+      'Check In',
+      'All Good',
+      'Not Now'
+    );
+
+    if (response === 'Check In') {
+      await this.showCheckIn();
+    } else if (response === 'All Good') {
+      await this.recordCheckIn([]);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { Activity, Exercise, ExerciseType, WorkContext } from '../types';
+import { getAllExercises } from '../constants/exercises';
+import { Clock, RandomSource, systemClock, mathRandom } from '../utils/clock';
+
+export interface ExerciseRecommendation {
+  exercise: Exercise;
+  score: number;
+  reasons: string[];
+  matchedIssues: string[];
+}
+
+export interface RecommendationOptions {
+  suggestedDuration?: number; // seconds, overrides the preferred duration
+  context?: Partial<WorkContext>;
+}
+
+const DIFFICULTY_LEVELS: Record<Exercise['difficulty'], number> = { easy: 0, medium: 1, hard: 2 };
+const INTENSITY_LEVELS: Record<string, number> = { light: 0, medium: 1, high: 2 };
+const CATEGORY_MINUTES: Record<Exercise['category'], number | undefined> = {
+  '1min': 1,
+  '3min': 3,
+  '5min': 5,
+  'targeted': undefined
+};
+
+/**
+ * Ranks exercises by the user's preferences, time of day, recent history
+ * and reported issues.
+ *
+ * Each factor adds to or subtracts from a score; a small random jitter
+ * keeps equally good exercises from always appearing in the same order.
+ */
+export class ExerciseRecommender {
+  constructor(
+    private getHistory: () => Activity[] = () => [],
+    private getReportedIssues: () => string[] = () => [],
+    private clock: Clock = systemClock,
+    private random: RandomSource = mathRandom
+  ) {}
+
+  /**
+   * Get all exercises ranked best first
+   */
+  recommend(options: RecommendationOptions = {}): ExerciseRecommendation[] {
+    const context = this.buildContext(options.context);
+    const history = this.getHistory();
+
+    return getAllExercises()
+      .map(exercise => this.score(exercise, context, history, options.suggestedDuration))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Build the work context, filling gaps from settings and history
+   */
+  buildContext(overrides: Partial<WorkContext> = {}): WorkContext {
+    const now = overrides.currentTime || this.clock.now();
+    const config = vscode.workspace.getConfiguration('codefit');
+
+    return {
+      userId: 'local',
+      userStreakDays: 0,
+      isEarlyMorning: now.getHours() >= 5 && now.getHours() < 9,
+      consecutiveMinutes: 0,
+      recentIssues: Array.from(new Set([
+        ...this.getReportedIssues(),
+        ...config.get<string[]>('exercise.focusAreas', [])
+      ])),
+      preferredExercises: this.getFavouriteExerciseIds(),
+      ...overrides,
+      currentTime: now
+    };
+  }
+
+  /**
+   * Score one exercise
+   */
+  private score(
+    exercise: Exercise,
+    context: WorkContext,
+    history: Activity[],
+    suggestedDuration?: number
+  ): ExerciseRecommendation {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const reasons: string[] = [];
+    let score = 0;
+
+    // Preferred exercise types
+    const types = config.get<ExerciseType[]>('exercise.types', ['stretch', 'cardio', 'breathing']);
+    if (exercise.type && types.includes(exercise.type)) {
+      score += 2;
+      reasons.push(`You like ${exercise.type} exercises`);
+    } else if (exercise.type && types.length > 0) {
+      score -= 2;
+    }
+
+    // Preferred intensity
+    const intensity = INTENSITY_LEVELS[config.get<string>('exercise.intensity', 'medium')] ?? 1;
+    const intensityGap = Math.abs(DIFFICULTY_LEVELS[exercise.difficulty] - intensity);
+    score += intensityGap === 0 ? 1.5 : intensityGap === 1 ? 0 : -1.5;
+
+    // Preferred (or suggested) duration
+    const targetMinutes = suggestedDuration
+      ? Math.max(1, Math.round(suggestedDuration / 60))
+      : config.get<number>('exercise.duration', 3);
+    const minutes = CATEGORY_MINUTES[exercise.category];
+    if (minutes !== undefined) {
+      score += minutes === targetMinutes ? (suggestedDuration ? 4 : 1.5) : -Math.abs(minutes - targetMinutes) * 0.5;
+    }
+
+    // Reported issues
+    const matchedIssues = (exercise.targetIssues || []).filter(issue => context.recentIssues.includes(issue));
+    if (matchedIssues.length > 0) {
+      score += 3 * matchedIssues.length;
+      reasons.push(`Helps with ${matchedIssues.join(', ')}`);
+    }
+
+    // Time of day and sitting time
+    const timeReason = this.getTimeOfDayReason(exercise, context);
+    if (timeReason) {
+      score += 1;
+      reasons.push(timeReason);
+    }
+
+    // Recent history: avoid repeats, lean slightly towards favourites
+    const now = context.currentTime.getTime();
+    const recent = history.filter(a => a.exerciseId === exercise.id && now - a.completedAt.getTime() < 24 * 60 * 60 * 1000);
+    const lastTwoHours = recent.filter(a => now - a.completedAt.getTime() < 2 * 60 * 60 * 1000);
+    if (lastTwoHours.length > 0) {
+      score -= 2 * lastTwoHours.length;
+      reasons.push('Done recently');
+    } else if (recent.length === 0) {
+      score += 0.5;
+    }
+    if (recent.some(a => a.completionStatus === 'abandoned')) {
+      score -= 1;
+    }
+    if (context.preferredExercises.includes(exercise.id)) {
+      score += 0.5;
+    }
+
+    score += this.random.next() * 0.5;
+
+    return { exercise, score, reasons, matchedIssues };
+  }
+
+  /**
+   * Explain why an exercise suits the current time and sitting time, if it does
+   */
+  private getTimeOfDayReason(exercise: Exercise, context: WorkContext): string | undefined {
+    const hour = context.currentTime.getHours();
+
+    if (context.consecutiveMinutes >= 90 && exercise.type === 'cardio') {
+      return 'Gets you moving after a long sit';
+    }
+    if (context.consecutiveMinutes >= 60 && exercise.type === 'eye') {
+      return 'Rests your eyes after a long stretch of screen time';
+    }
+    if (hour < 10 && (exercise.type === 'stretch' || exercise.type === 'cardio')) {
+      return 'Good morning energiser';
+    }
+    if (hour >= 14 && hour < 17 && (exercise.type === 'cardio' || exercise.type === 'strength')) {
+      return 'Beats the afternoon slump';
+    }
+    if (hour >= 18 && (exercise.type === 'breathing' || exercise.type === 'stretch')) {
+      return 'Winds you down in the evening';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Most frequently completed exercises
+   */
+  private getFavouriteExerciseIds(): string[] {
+    const counts = new Map<string, number>();
+    for (const activity of this.getHistory()) {
+      if (activity.exerciseId && activity.completionStatus === 'completed') {
+        counts.set(activity.exerciseId, (counts.get(activity.exerciseId) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([id]) => id);
+  }
+}
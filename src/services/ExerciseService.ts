@@ -1,10 +1,21 @@
 import * as vscode from 'vscode';
-import { Exercise, Activity } from '../types';
-import { EXERCISES, getExerciseById, getExercisesByCategory } from '../constants/exercises';
+import { Exercise, Activity, Routine, RoutineStep, WorkContext } from '../types';
+import { getAllExercises, getExerciseById, getExercisesByCategory } from '../constants/exercises';
 import { HealthTracker } from './HealthTracker';
 import { GamificationService } from './GamificationService';
+import { ExerciseRecommender, ExerciseRecommendation } from './ExerciseRecommender';
+import { DiscomfortTracker } from './DiscomfortTracker';
+import { ExercisePlayer, ExerciseSessionResult } from '../ui/ExercisePlayer';
+
+const RECOMMENDED_COUNT = 3;
 
 export class ExerciseService {
+  private discomfortTracker?: DiscomfortTracker;
+  private recommender = new ExerciseRecommender(
+    () => this.healthTracker?.getAllActivities() || [],
+    () => this.discomfortTracker?.getRecentIssues() || []
+  );
+
   constructor(
     private context: vscode.ExtensionContext,
     private healthTracker?: HealthTracker,
@@ -26,7 +37,39 @@ export class ExerciseService {
   }
 
   /**
-   * Show exercise picker and execute selected exercise
+   * Set discomfort tracker reference (reported issues steer recommendations)
+   */
+  setDiscomfortTracker(tracker: DiscomfortTracker): void {
+    this.discomfortTracker = tracker;
+  }
+
+  /**
+   * Offer the best exercise for issues the user just reported
+   */
+  async offerTargetedExercise(issues: string[]): Promise<void> {
+    const match = this.getRecommendedExercises().find(r =>
+      r.exercise.targetIssues?.some(issue => issues.includes(issue))
+    );
+
+    if (!match) {
+      return;
+    }
+
+    const helped = (match.exercise.targetIssues || []).filter(issue => issues.includes(issue));
+    const response = await vscode.window.showInformationMessage(
+      `${match.exercise.name} can help with ${helped.map(issue => issue.replace('-', ' ')).join(', ')}. Try it now?`,
+      'Start',
+      'Later'
+    );
+
+    if (response === 'Start') {
+      await this.executeExercise(match.exercise);
+    }
+  }
+
+  /**
+   * Show exercise picker and execute selected exercise; resolves to the
+   * exercise if at least one step was done
    */
   async showExercisePicker(suggestedDuration?: number): Promise<Exercise | undefined> {
     const items = this.createExerciseQuickPickItems(suggestedDuration);
@@ -47,7 +90,7 @@ export class ExerciseService {
   }
 
   /**
-   * Execute a specific exercise by ID
+   * Execute a specific exercise by ID; resolves to the exercise if at least one step was done
    */
   async executeExerciseById(exerciseId: string): Promise<Exercise | undefined> {
     const exercise = getExerciseById(exerciseId);
@@ -81,131 +124,218 @@ export class ExerciseService {
   }
 
   /**
-   * Execute an exercise with step-by-step guidance
+   * Execute an exercise with step-by-step guidance in the exercise player.
+   * Resolves to undefined when the exercise was abandoned, so it doesn't count as a break
    */
-  private async executeExercise(exercise: Exercise): Promise<Exercise> {
-    const startTime = new Date();
-
-    // Show starting message
-    const startResponse = await vscode.window.showInformationMessage(
-      `Starting: ${exercise.name} (${Math.floor(exercise.duration / 60)} min)`,
-      'Begin',
-      'Cancel'
-    );
+  private async executeExercise(exercise: Exercise): Promise<Exercise | undefined> {
+    const { result, activityId } = await this.playAndRecord(exercise);
+
+    if (result.stepsCompleted === 0) {
+      vscode.window.showInformationMessage('Exercise cancelled. Try again when ready!');
+      return undefined;
+    }
+
+    await this.handleExerciseCompletion(exercise, result, activityId);
+    return exercise;
+  }
 
-    if (startResponse !== 'Begin') {
-      return exercise;
+  /**
+   * Run a routine as one session: each exercise is recorded as its own
+   * activity, gamification is awarded once at the end
+   */
+  async executeRoutine(routine: Routine): Promise<void> {
+    const steps = routine.steps
+      .map(step => ({ step, exercise: getExerciseById(step.exerciseId) }))
+      .filter((s): s is { step: RoutineStep; exercise: Exercise } => !!s.exercise);
+
+    const missing = routine.steps.length - steps.length;
+    if (steps.length === 0) {
+      vscode.window.showErrorMessage(`Routine "${routine.name}" has no available exercises`);
+      return;
+    } else if (missing > 0) {
+      vscode.window.showWarningMessage(`Skipping ${missing} exercise(s) in "${routine.name}" that are no longer available`);
     }
 
-    // Execute each step
-    let completed = true;
-    for (let i = 0; i < exercise.steps.length; i++) {
-      const step = exercise.steps[i];
-      const stepResult = await this.executeStep(step, i + 1, exercise.steps.length);
+    const sessions: Array<{ exercise: Exercise; result: ExerciseSessionResult; activityId?: string }> = [];
+    let stopped = false;
+
+    for (let i = 0; i < steps.length; i++) {
+      const { step, exercise } = steps[i];
+      const { result, activityId } = await this.playAndRecord(
+        exercise,
+        routine.id,
+        `${routine.name} (${i + 1}/${steps.length}): ${exercise.name}`
+      );
+      sessions.push({ exercise, result, activityId });
 
-      if (!stepResult) {
-        completed = false;
+      if (result.stopped) {
+        stopped = true;
         break;
       }
+
+      const next = steps[i + 1];
+      if (next && step.restAfter) {
+        await this.rest(step.restAfter, next.exercise);
+      }
     }
 
-    if (completed) {
-      const endTime = new Date();
-      await this.handleExerciseCompletion(exercise, startTime, endTime);
-    } else {
-      vscode.window.showInformationMessage('Exercise cancelled. Try again when ready!');
+    const counted = sessions.filter(s => s.result.stepsCompleted > 0);
+    const completedAll = !stopped && counted.length === steps.length &&
+      counted.every(s => s.result.stepsCompleted === s.result.totalSteps);
+
+    if (counted.length === 0) {
+      vscode.window.showInformationMessage('Routine cancelled. Try again when ready!');
+      return;
     }
 
-    return exercise;
+    let xpEarned = 0;
+    let newAchievements: any[] = [];
+
+    if (this.gamificationService) {
+      const award = await this.gamificationService.awardRoutineCompletion(
+        counted.map(s => ({
+          exercise: s.exercise,
+          completionRatio: s.result.stepsCompleted / s.result.totalSteps,
+          activityId: s.activityId
+        })),
+        completedAll
+      );
+      xpEarned = award.xpEarned;
+      newAchievements = award.newAchievements;
+    }
+
+    let message = completedAll
+      ? `🎉 Routine complete: ${routine.name}!`
+      : `👍 Nice effort! Did ${counted.length}/${steps.length} exercises of ${routine.name}`;
+
+    if (xpEarned > 0) {
+      message += `\n+${xpEarned} XP earned${completedAll ? ' (including routine bonus)' : ''}!`;
+    }
+
+    if (newAchievements.length > 0) {
+      message += `\n🏆 New achievement: ${newAchievements[0].name}!`;
+    }
+
+    const calories = counted.reduce((sum, s) => sum + this.getCaloriesBurned(s.exercise, s.result), 0);
+    message += `\n🔥 ${calories} calories burned`;
+
+    const response = await vscode.window.showInformationMessage(message, 'View Stats', 'Back to Code');
+    if (response === 'View Stats') {
+      vscode.commands.executeCommand('codefit.viewStats');
+    }
   }
 
   /**
-   * Execute a single exercise step
+   * Play an exercise and record the attempt, whether completed, partial or abandoned
    */
-  private async executeStep(
-    step: { instruction: string; duration: number },
-    stepNumber: number,
-    totalSteps: number
-  ): Promise<boolean> {
-    return new Promise((resolve) => {
-      let countdown = step.duration;
-      let progressInterval: NodeJS.Timeout;
-
-      // Create status bar item for countdown
-      const statusBar = vscode.window.createStatusBarItem(
-        vscode.StatusBarAlignment.Right,
-        100
-      );
-      statusBar.text = `$(clock) Step ${stepNumber}/${totalSteps}: ${countdown}s`;
-      statusBar.show();
-
-      // Show step instruction
-      vscode.window.showInformationMessage(
-        `Step ${stepNumber}/${totalSteps}: ${step.instruction} (${step.duration}s)`,
-        'Skip',
-        'Stop Exercise'
-      ).then((response) => {
-        clearInterval(progressInterval);
-        statusBar.dispose();
-
-        if (response === 'Stop Exercise') {
-          resolve(false);
-        } else {
-          resolve(true);
-        }
-      });
-
-      // Update countdown
-      progressInterval = setInterval(() => {
-        countdown--;
-        statusBar.text = `$(clock) Step ${stepNumber}/${totalSteps}: ${countdown}s`;
-
-        if (countdown <= 0) {
-          clearInterval(progressInterval);
-          statusBar.dispose();
-          resolve(true);
-        }
-      }, 1000);
-    });
+  private async playAndRecord(
+    exercise: Exercise,
+    routineId?: string,
+    title?: string
+  ): Promise<{ result: ExerciseSessionResult; activityId?: string }> {
+    const player = new ExercisePlayer(this.context, exercise, title);
+    const result = await player.play();
+
+    // Abandoned attempts are kept too so abandon rates show up in history
+    if (this.healthTracker && (result.stepsCompleted > 0 || result.elapsedSeconds > 0)) {
+      const activity = await this.healthTracker.recordActivity({ ...this.createActivity(exercise, result), routineId });
+      return { result, activityId: activity.id };
+    }
+
+    return { result };
+  }
+
+  /**
+   * Count down a rest interval between routine exercises (cancelling skips the rest)
+   */
+  private async rest(seconds: number, next: Exercise): Promise<void> {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `😌 Rest — next up: ${next.name}`,
+        cancellable: true
+      },
+      (progress, token) => new Promise<void>(resolve => {
+        let remaining = seconds;
+        progress.report({ message: `${remaining}s` });
+
+        const timer = setInterval(() => {
+          remaining--;
+          progress.report({ increment: 100 / seconds, message: `${remaining}s` });
+          if (remaining <= 0) {
+            clearInterval(timer);
+            resolve();
+          }
+        }, 1000);
+
+        token.onCancellationRequested(() => {
+          clearInterval(timer);
+          resolve();
+        });
+      })
+    );
   }
 
   /**
-   * Handle exercise completion
+   * Handle exercise completion (full or partial)
    */
   private async handleExerciseCompletion(
     exercise: Exercise,
-    startTime: Date,
-    endTime: Date
+    result: ExerciseSessionResult,
+    activityId?: string
   ): Promise<void> {
-    // Record activity
-    const activity: Partial<Activity> = {
+    // Award points and XP via gamification service (pro-rated for partial runs)
+    let xpEarned = 0;
+    let newAchievements: any[] = [];
+
+    if (this.gamificationService) {
+      const award = await this.gamificationService.awardExerciseCompletion(
+        exercise,
+        result.stepsCompleted / result.totalSteps,
+        activityId
+      );
+      xpEarned = award.xpEarned;
+      newAchievements = award.newAchievements;
+    }
+
+    // Show completion message
+    await this.showCompletionCelebration(exercise, result, xpEarned, newAchievements);
+  }
+
+  /**
+   * Build the activity record for a player session, using the time actually spent
+   */
+  private createActivity(exercise: Exercise, result: ExerciseSessionResult): Partial<Activity> {
+    return {
       exerciseId: exercise.id,
       exerciseName: exercise.name,
-      duration: exercise.duration,
-      caloriesBurned: exercise.caloriesBurn,
+      duration: result.elapsedSeconds,
+      completionStatus: this.getCompletionStatus(result),
+      stepsCompleted: result.stepsCompleted,
+      totalSteps: result.totalSteps,
+      caloriesBurned: this.getCaloriesBurned(exercise, result),
       source: 'vscode',
       triggeredBy: 'manual',
-      startedAt: startTime,
-      completedAt: endTime
+      startedAt: result.startedAt,
+      completedAt: result.endedAt
     };
+  }
 
-    // Save to health tracker
-    if (this.healthTracker) {
-      await this.healthTracker.recordActivity(activity);
-    }
-
-    // Award points and XP via gamification service
-    let xpEarned = 0;
-    let newAchievements: any[] = [];
-
-    if (this.gamificationService) {
-      const result = await this.gamificationService.awardExerciseCompletion(exercise);
-      xpEarned = result.xpEarned;
-      newAchievements = result.newAchievements;
+  /**
+   * Classify a player session as completed, partial or abandoned
+   */
+  private getCompletionStatus(result: ExerciseSessionResult): Activity['completionStatus'] {
+    if (result.stepsCompleted >= result.totalSteps) {
+      return 'completed';
     }
+    return result.stepsCompleted > 0 ? 'partial' : 'abandoned';
+  }
 
-    // Show completion message
-    await this.showCompletionCelebration(exercise, xpEarned, newAchievements);
+  /**
+   * Calories burned, pro-rated by the steps completed
+   */
+  private getCaloriesBurned(exercise: Exercise, result: ExerciseSessionResult): number {
+    return Math.round(exercise.caloriesBurn * result.stepsCompleted / result.totalSteps);
   }
 
   /**
@@ -213,10 +343,13 @@ export class ExerciseService {
    */
   private async showCompletionCelebration(
     exercise: Exercise,
+    result: ExerciseSessionResult,
     xpEarned: number,
     newAchievements: any[]
   ): Promise<void> {
-    let message = `🎉 Great job! Completed ${exercise.name}`;
+    let message = result.stepsCompleted === result.totalSteps
+      ? `🎉 Great job! Completed ${exercise.name}`
+      : `👍 Nice effort! Completed ${result.stepsCompleted}/${result.totalSteps} steps of ${exercise.name}`;
 
     if (xpEarned > 0) {
       message += `\n+${xpEarned} XP earned!`;
@@ -226,7 +359,7 @@ export class ExerciseService {
       message += `\n🏆 New achievement: ${newAchievements[0].name}!`;
     }
 
-    message += `\n🔥 ${exercise.caloriesBurn} calories burned`;
+    message += `\n🔥 ${this.getCaloriesBurned(exercise, result)} calories burned`;
 
     const response = await vscode.window.showInformationMessage(
       message,
@@ -251,19 +384,13 @@ export class ExerciseService {
     detail: string;
     exercise: Exercise;
   }> {
-    let exercisesToShow = EXERCISES;
-
-    // Filter by suggested duration if provided
-    if (suggestedDuration) {
-      const targetCategory = suggestedDuration <= 60 ? '1min' :
-                             suggestedDuration <= 180 ? '3min' : '5min';
-      exercisesToShow = EXERCISES.filter(ex => ex.category === targetCategory);
-    }
-
-    return exercisesToShow.map(exercise => ({
-      label: `${this.getCategoryIcon(exercise.category)} ${exercise.name}`,
+    // Ranked best first; the top picks are starred with the reason they were chosen
+    return this.getRecommendedExercises(suggestedDuration).map(({ exercise, reasons }, index) => ({
+      label: `${index < RECOMMENDED_COUNT ? '$(star-full) ' : ''}${this.getCategoryIcon(exercise.category)} ${exercise.name}`,
       description: `${Math.floor(exercise.duration / 60)} min • ${exercise.caloriesBurn} cal`,
-      detail: exercise.benefits[0],
+      detail: index < RECOMMENDED_COUNT && reasons.length > 0
+        ? `Recommended: ${reasons.join(' • ')}`
+        : exercise.benefits[0],
       exercise
     }));
   }
@@ -306,7 +433,7 @@ export class ExerciseService {
    * Get random exercise from category
    */
   getRandomExercise(category?: Exercise['category']): Exercise {
-    let pool = EXERCISES;
+    let pool = getAllExercises();
 
     if (category) {
       pool = getExercisesByCategory(category);
@@ -316,24 +443,28 @@ export class ExerciseService {
   }
 
   /**
-   * Get exercise recommendations based on time of day
+   * Get exercises ranked by preferences, time of day, history and reported issues.
+   * With a suggested duration, only exercises of that length (or targeting a
+   * reported issue) are returned.
    */
-  getRecommendedExercises(): Exercise[] {
-    const hour = new Date().getHours();
+  getRecommendedExercises(suggestedDuration?: number, context?: Partial<WorkContext>): ExerciseRecommendation[] {
+    const recommendations = this.recommender.recommend({ suggestedDuration, context });
 
-    if (hour < 10) {
-      // Morning: energizing exercises
-      return EXERCISES.filter(ex =>
-        ex.name.includes('Walk') || ex.name.includes('Stretch')
-      );
-    } else if (hour > 14 && hour < 17) {
-      // Afternoon: combat slump
-      return EXERCISES.filter(ex =>
-        ex.category === '3min' || ex.name.includes('Stair')
-      );
-    } else {
-      // Default: all exercises
-      return EXERCISES;
+    if (!suggestedDuration) {
+      return recommendations;
     }
+
+    const targetCategory = this.getCategoryForDuration(suggestedDuration);
+    return recommendations.filter(r =>
+      r.exercise.category === targetCategory ||
+      (r.exercise.category === 'targeted' && r.matchedIssues.length > 0)
+    );
+  }
+
+  /**
+   * Map a suggested duration in seconds to an exercise category
+   */
+  private getCategoryForDuration(seconds: number): Exercise['category'] {
+    return seconds <= 60 ? '1min' : seconds <= 180 ? '3min' : '5min';
   }
 }
@@ -229,6 +229,9 @@ export class FirebaseService {
     duration: number;
     source: string;
     completedFully?: boolean;
+    completionStatus?: 'completed' | 'partial' | 'abandoned';
+    stepsCompleted?: number;
+    totalSteps?: number;
     gitContext?: any;
   }) {
     return this.callFunction('logActivity', activity);
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { Clock, systemClock } from '../utils/clock';
+
+export type FlowBreakpoint = 'save' | 'build' | 'tests' | 'task' | 'branch-switch' | 'commit';
+
+const WINDOW_MINUTES = 10;
+const BURST_CHARS = 100; // edits since the last save that make a save a breakpoint
+const FLOW_RATE = 80; // chars per minute that count as full-speed editing
+
+/**
+ * Estimates whether the user is in a state of flow and reports natural
+ * breakpoints where a reminder interrupts the least.
+ *
+ * The flow score (0-100) combines the edit rate and how many of the last
+ * minutes had edits, with a bonus for saving and a penalty for jumping
+ * between files. Edits are fed in by the reminder service; saves, file
+ * switches and task ends are picked up from the editor.
+ */
+export class FlowDetector {
+  private edits: Array<{ time: number; chars: number }> = [];
+  private fileSwitches: number[] = [];
+  private saves: number[] = [];
+  private charsSinceSave = 0;
+  private disposables: vscode.Disposable[] = [];
+  private onDidReachBreakpointEmitter = new vscode.EventEmitter<FlowBreakpoint>();
+
+  /** Fires at a natural breakpoint in the user's work */
+  readonly onDidReachBreakpoint = this.onDidReachBreakpointEmitter.event;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Start listening for saves, file switches and finished tasks
+   */
+  start(): void {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.uri.scheme === 'file') {
+          this.recordSave();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor?.document.uri.scheme === 'file') {
+          this.recordFileSwitch();
+        }
+      }),
+      vscode.tasks.onDidEndTaskProcess(event => this.recordTaskEnd(event.execution.task))
+    );
+  }
+
+  /**
+   * Record typed characters
+   */
+  recordEdit(chars: number): void {
+    this.edits.push({ time: this.clock.now().getTime(), chars });
+    this.charsSinceSave += chars;
+    this.prune();
+  }
+
+  recordFileSwitch(): void {
+    this.fileSwitches.push(this.clock.now().getTime());
+    this.prune();
+  }
+
+  /**
+   * Record a save; saving after a burst of edits is a breakpoint
+   */
+  recordSave(): void {
+    this.saves.push(this.clock.now().getTime());
+    this.prune();
+
+    const burst = this.charsSinceSave >= BURST_CHARS;
+    this.charsSinceSave = 0;
+    if (burst) {
+      this.onDidReachBreakpointEmitter.fire('save');
+    }
+  }
+
+  /**
+   * Record a finished task; test and build tasks are reported as such
+   */
+  recordTaskEnd(task: vscode.Task): void {
+    if (task.isBackground) {
+      return;
+    }
+
+    if (task.group === vscode.TaskGroup.Test || /\btests?\b/i.test(task.name)) {
+      this.onDidReachBreakpointEmitter.fire('tests');
+    } else if (task.group === vscode.TaskGroup.Build) {
+      this.onDidReachBreakpointEmitter.fire('build');
+    } else {
+      this.onDidReachBreakpointEmitter.fire('task');
+    }
+  }
+
+  recordBranchSwitch(): void {
+    this.onDidReachBreakpointEmitter.fire('branch-switch');
+  }
+
+  recordCommit(): void {
+    this.charsSinceSave = 0;
+    this.onDidReachBreakpointEmitter.fire('commit');
+  }
+
+  /**
+   * Typed characters per minute over the last N minutes
+   */
+  getEditRate(minutes: number = WINDOW_MINUTES): number {
+    const since = this.clock.now().getTime() - minutes * 60 * 1000;
+    const chars = this.edits.filter(e => e.time >= since).reduce((sum, e) => sum + e.chars, 0);
+    return chars / minutes;
+  }
+
+  /**
+   * Flow score from 0 (scattered or idle) to 100 (deep focus)
+   */
+  getFlowScore(): number {
+    this.prune();
+
+    const now = this.clock.now().getTime();
+    const activeMinutes = new Set(this.edits.map(e => Math.floor((now - e.time) / 60000))).size;
+
+    const rateScore = Math.min(1, this.getEditRate() / FLOW_RATE) * 60;
+    const sustainScore = Math.min(1, activeMinutes / WINDOW_MINUTES) * 30;
+    const saveBonus = this.saves.length > 0 ? 10 : 0;
+    const switchPenalty = Math.min(30, this.fileSwitches.length * 4);
+
+    return Math.round(Math.max(0, Math.min(100, rateScore + sustainScore + saveBonus - switchPenalty)));
+  }
+
+  /**
+   * Whether the flow score is above the configured threshold
+   */
+  isInFlow(): boolean {
+    const threshold = vscode.workspace.getConfiguration('codefit').get<number>('flow.threshold', 60);
+    return this.getFlowScore() >= threshold;
+  }
+
+  dispose(): void {
+    this.onDidReachBreakpointEmitter.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Drop signals older than the estimation window
+   */
+  private prune(): void {
+    const since = this.clock.now().getTime() - WINDOW_MINUTES * 60 * 1000;
+    this.edits = this.edits.filter(e => e.time >= since);
+    this.fileSwitches = this.fileSwitches.filter(t => t >= since);
+    this.saves = this.saves.filter(t => t >= since);
+  }
+}
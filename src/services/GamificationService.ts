@@ -1,64 +1,103 @@
 import * as vscode from 'vscode';
-import { Exercise, Achievement, UserStats, DailyQuest, QuestTask } from '../types';
+import {
+  Exercise,
+  Achievement,
+  AchievementHistory,
+  AchievementStatus,
+  UserStats,
+  DailyQuest,
+  QuestTask,
+  ChallengePeriod,
+  PersonalChallenge,
+  PointsBreakdown,
+  LedgerEntry
+} from '../types';
 import { StorageManager } from '../utils/storage';
 import { ACHIEVEMENTS, LEVELS } from '../constants/achievements';
-import { format, isToday } from 'date-fns';
+import { AchievementEngine } from './AchievementEngine';
+import { QuestGenerator } from './QuestGenerator';
+import { HealthTracker } from './HealthTracker';
+import { ReminderHistory } from './ReminderHistory';
+import { PointsLedger, sumBreakdown } from './PointsLedger';
+import { AchievementsView } from '../ui/AchievementsView';
+import { Clock, systemClock } from '../utils/clock';
+import { addMonths, addWeeks, format, isSameDay, startOfMonth, startOfWeek } from 'date-fns';
+
+const ROUTINE_BONUS_XP_PER_EXERCISE = 5;
+const ROUTINE_BONUS_POINTS = 10;
+const CHALLENGE_PERIODS: ChallengePeriod[] = ['week', 'month'];
+const CHALLENGE_HISTORY_LIMIT = 100;
 
 export class GamificationService {
-  private userStats: UserStats;
   private unlockedAchievements: Set<string>;
   private dailyQuest?: DailyQuest;
+  private challenges: PersonalChallenge[];
+  private achievementEngine = new AchievementEngine();
+  private achievementsView = new AchievementsView();
+  private questGenerator = new QuestGenerator();
+  private healthTracker?: HealthTracker;
+  private reminderHistory?: ReminderHistory;
 
   constructor(
     private context: vscode.ExtensionContext,
-    private storage: StorageManager
+    private storage: StorageManager,
+    private ledger: PointsLedger,
+    private clock: Clock = systemClock
   ) {
-    this.userStats = this.loadUserStats();
     this.unlockedAchievements = new Set(this.loadUnlockedAchievements());
     this.dailyQuest = this.loadOrGenerateDailyQuest();
+    this.challenges = this.loadChallenges();
+  }
+
+  /**
+   * Set the health tracker whose activity history achievements are evaluated against
+   */
+  setHealthTracker(healthTracker: HealthTracker): void {
+    this.healthTracker = healthTracker;
+  }
+
+  /**
+   * Set the reminder history used for speed achievements
+   */
+  setReminderHistory(reminderHistory: ReminderHistory): void {
+    this.reminderHistory = reminderHistory;
   }
 
   /**
    * Award XP and points for completing an exercise
    */
-  async awardExerciseCompletion(exercise: Exercise): Promise<{
+  async awardExerciseCompletion(exercise: Exercise, completionRatio: number = 1, activityId?: string): Promise<{
     xpEarned: number;
     pointsEarned: number;
     leveledUp: boolean;
     newLevel?: number;
     newAchievements: Achievement[];
   }> {
-    // Calculate XP based on exercise duration
-    const baseXP = this.calculateExerciseXP(exercise);
-    const bonusXP = this.calculateBonusXP();
-    const totalXP = baseXP + bonusXP;
+    const oldLevel = this.getUserStats().level;
+    const completedFully = completionRatio >= 1;
 
-    // Calculate points
-    const points = this.calculateExercisePoints(exercise);
+    // Partial completions earn a pro-rated share and no bonus
+    const entry = await this.recordExercise(exercise, completionRatio, activityId);
+    const bonusXP = completedFully ? await this.recordBonuses() : 0;
 
-    // Award XP
-    const oldLevel = this.userStats.level;
-    this.userStats.xp += totalXP;
-    this.userStats.totalPoints += points;
-    this.userStats.availablePoints += points;
+    // Achievements only count full completions; a partial attempt still counts as a quest break
+    const newAchievements = completedFully ? await this.checkAchievements() : [];
 
-    // Check for level up
-    const leveledUp = this.checkAndHandleLevelUp();
-    const newLevel = leveledUp ? this.userStats.level : undefined;
-
-    // Check for achievements
-    const newAchievements = await this.checkAchievements(exercise);
-
-    // Update daily quest progress
-    await this.updateDailyQuestProgress(exercise);
+    if (completionRatio > 0) {
+      await this.updateDailyQuestProgress(completedFully ? [exercise] : [], true);
+      await this.updateChallengeProgress(completedFully ? [exercise] : [], true);
+    }
 
     // Save state
-    await this.saveUserStats();
     await this.saveUnlockedAchievements();
 
+    // Achievement, quest and challenge XP count towards the level too
+    const newLevel = this.getUserStats().level;
+    const leveledUp = newLevel > oldLevel;
+
     // Show notifications
     if (leveledUp) {
-      this.showLevelUpNotification(oldLevel, this.userStats.level);
+      this.showLevelUpNotification(oldLevel, newLevel);
     }
 
     for (const achievement of newAchievements) {
@@ -66,28 +105,136 @@ export class GamificationService {
     }
 
     return {
-      xpEarned: totalXP,
+      xpEarned: entry.xp + bonusXP,
+      pointsEarned: entry.points,
+      leveledUp,
+      newLevel: leveledUp ? newLevel : undefined,
+      newAchievements
+    };
+  }
+
+  /**
+   * Award XP and points once for a routine, plus a bonus when every exercise was completed
+   */
+  async awardRoutineCompletion(
+    sessions: Array<{ exercise: Exercise; completionRatio: number; activityId?: string }>,
+    completedAll: boolean
+  ): Promise<{
+    xpEarned: number;
+    pointsEarned: number;
+    routineBonusXP: number;
+    leveledUp: boolean;
+    newLevel?: number;
+    newAchievements: Achievement[];
+  }> {
+    const oldLevel = this.getUserStats().level;
+    let xp = 0;
+    let points = 0;
+
+    for (const session of sessions) {
+      const entry = await this.recordExercise(session.exercise, session.completionRatio, session.activityId);
+      xp += entry.xp;
+      points += entry.points;
+    }
+
+    const routineBonusXP = completedAll ? ROUTINE_BONUS_XP_PER_EXERCISE * sessions.length : 0;
+    if (completedAll) {
+      await this.ledger.record({
+        type: 'bonus',
+        xp: routineBonusXP,
+        points: ROUTINE_BONUS_POINTS,
+        description: 'Routine completion bonus'
+      });
+      points += ROUTINE_BONUS_POINTS;
+    }
+    xp += routineBonusXP + await this.recordBonuses();
+
+    // The routine counts as one break; each fully completed exercise counts towards quests
+    const completed = sessions.filter(s => s.completionRatio >= 1);
+    const newAchievements = completed.length > 0
+      ? await this.checkAchievements()
+      : [];
+
+    if (sessions.some(s => s.completionRatio > 0)) {
+      await this.updateDailyQuestProgress(completed.map(s => s.exercise), true);
+      await this.updateChallengeProgress(completed.map(s => s.exercise), true);
+    }
+
+    await this.saveUnlockedAchievements();
+
+    const newLevel = this.getUserStats().level;
+    const leveledUp = newLevel > oldLevel;
+
+    if (leveledUp) {
+      this.showLevelUpNotification(oldLevel, newLevel);
+    }
+
+    for (const achievement of newAchievements) {
+      this.showAchievementNotification(achievement);
+    }
+
+    return {
+      xpEarned: xp,
       pointsEarned: points,
+      routineBonusXP,
       leveledUp,
-      newLevel,
+      newLevel: leveledUp ? newLevel : undefined,
       newAchievements
     };
   }
 
   /**
-   * Get current user stats
+   * Get current user stats; XP, level and points come from the points ledger
    */
   getUserStats(): UserStats {
-    return { ...this.userStats };
+    if (this.healthTracker) {
+      return this.healthTracker.getStats();
+    }
+
+    return {
+      healthScore: 100,
+      streak: 0,
+      longestStreak: 0,
+      totalExercises: 0,
+      totalExerciseTime: 0,
+      ...this.ledger.getBalance()
+    };
   }
 
   /**
    * Get daily quest
    */
   getDailyQuest(): DailyQuest | undefined {
+    if (!this.isDailyQuestEnabled()) {
+      return undefined;
+    }
+
+    // Start a new quest when the day rolls over
+    if (!this.dailyQuest || !isSameDay(this.dailyQuest.date, this.clock.now())) {
+      this.dailyQuest = this.generateDailyQuest();
+    }
     return this.dailyQuest;
   }
 
+  /**
+   * Get this week's and this month's challenges, starting new ones when a period ends
+   */
+  getChallenges(): PersonalChallenge[] {
+    if (!this.isChallengesEnabled()) {
+      return [];
+    }
+
+    this.rollOverChallenges();
+    return this.challenges;
+  }
+
+  /**
+   * Get challenges from past periods, oldest first
+   */
+  getChallengeHistory(): PersonalChallenge[] {
+    return this.storage.get<PersonalChallenge[]>('challengeHistory', []).map(c => this.reviveChallenge(c));
+  }
+
   /**
    * Get unlocked achievements
    */
@@ -102,6 +249,31 @@ export class GamificationService {
     return ACHIEVEMENTS.filter(a => !this.unlockedAchievements.has(a.id));
   }
 
+  /**
+   * Get progress towards every achievement, in catalogue order
+   */
+  getAchievementProgress(): AchievementStatus[] {
+    const history = this.getAchievementHistory();
+
+    return ACHIEVEMENTS.map(achievement => {
+      const unlocked = this.unlockedAchievements.has(achievement.id);
+      return {
+        achievement,
+        progress: unlocked
+          ? this.achievementEngine.complete(achievement.requirement)
+          : this.achievementEngine.evaluate(achievement.requirement, history),
+        unlocked
+      };
+    });
+  }
+
+  /**
+   * Get the locked achievement closest to unlocking
+   */
+  getNextAchievement(): AchievementStatus | undefined {
+    return this.findNextAchievement(this.getAchievementProgress());
+  }
+
   /**
    * Calculate XP for exercise
    */
@@ -117,20 +289,44 @@ export class GamificationService {
   }
 
   /**
-   * Calculate bonus XP
+   * Record the ledger entry for an exercise session, pro-rated for partial completions
+   */
+  private async recordExercise(exercise: Exercise, completionRatio: number, activityId?: string): Promise<LedgerEntry> {
+    const ratio = Math.min(1, completionRatio);
+    const breakdown = this.calculateExercisePoints(exercise, ratio);
+
+    return this.ledger.record({
+      type: 'exercise',
+      xp: Math.round(this.calculateExerciseXP(exercise) * ratio),
+      points: sumBreakdown(breakdown),
+      description: exercise.name,
+      activityId,
+      sourceId: exercise.id,
+      breakdown
+    });
+  }
+
+  /**
+   * Record the early bird and streak bonuses for a break, returning the XP awarded
    */
-  private calculateBonusXP(): number {
+  private async recordBonuses(): Promise<number> {
     let bonus = 0;
-    const hour = new Date().getHours();
+    const hour = this.clock.now().getHours();
+    const streak = this.getUserStats().streak;
 
     // Early morning bonus (6-8 AM)
     if (hour >= 6 && hour < 8) {
-      bonus += 5;
+      bonus += (await this.ledger.record({ type: 'bonus', xp: 5, points: 0, description: 'Early bird bonus' })).xp;
     }
 
     // Streak bonus
-    if (this.userStats.streak >= 7) {
-      bonus += Math.floor(this.userStats.streak / 7) * 2;
+    if (streak >= 7) {
+      bonus += (await this.ledger.record({
+        type: 'streak-bonus',
+        xp: Math.floor(streak / 7) * 2,
+        points: 0,
+        description: `${streak}-day streak bonus`
+      })).xp;
     }
 
     return bonus;
@@ -139,7 +335,7 @@ export class GamificationService {
   /**
    * Calculate points for exercise
    */
-  private calculateExercisePoints(exercise: Exercise): number {
+  private calculateExercisePoints(exercise: Exercise, completionRatio: number): PointsBreakdown {
     const basePoints = {
       '1min': 5,
       '3min': 15,
@@ -147,52 +343,29 @@ export class GamificationService {
       'targeted': 20
     };
 
-    let points = basePoints[exercise.category] || 10;
+    const multipliers: PointsBreakdown['multipliers'] = [];
+    if (completionRatio < 1) {
+      multipliers.push({ name: 'Partial completion', value: Math.round(completionRatio * 100) / 100 });
+    }
 
     // Apply multipliers
     const config = vscode.workspace.getConfiguration('codefit');
     if (config.get('gamification.enabled')) {
       // Consistency bonus
-      if (this.userStats.streak >= 7) {
-        points = Math.floor(points * 1.1);
+      if (this.getUserStats().streak >= 7) {
+        multipliers.push({ name: 'Streak', value: 1.1 });
       }
     }
 
-    return points;
-  }
-
-  /**
-   * Check and handle level up
-   */
-  private checkAndHandleLevelUp(): boolean {
-    const currentLevel = this.findCurrentLevel(this.userStats.xp);
-
-    if (currentLevel > this.userStats.level) {
-      this.userStats.level = currentLevel;
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Find current level based on XP
-   */
-  private findCurrentLevel(xp: number): number {
-    for (let i = LEVELS.length - 1; i >= 0; i--) {
-      if (xp >= LEVELS[i].xpRequired) {
-        return LEVELS[i].level;
-      }
-    }
-
-    return 1;
+    return { base: basePoints[exercise.category] || 10, multipliers, bonus: 0 };
   }
 
   /**
    * Get next level info
    */
   getNextLevelInfo(): { level: number; xpRequired: number; xpProgress: number } {
-    const currentLevel = this.userStats.level;
+    const stats = this.getUserStats();
+    const currentLevel = stats.level;
     const nextLevelData = LEVELS.find(l => l.level > currentLevel);
 
     if (!nextLevelData) {
@@ -208,7 +381,7 @@ export class GamificationService {
     const xpForCurrentLevel = currentLevelData?.xpRequired || 0;
     const xpForNextLevel = nextLevelData.xpRequired;
     const xpNeeded = xpForNextLevel - xpForCurrentLevel;
-    const xpProgress = this.userStats.xp - xpForCurrentLevel;
+    const xpProgress = stats.xp - xpForCurrentLevel;
 
     return {
       level: nextLevelData.level,
@@ -217,11 +390,49 @@ export class GamificationService {
     };
   }
 
+  /**
+   * Re-evaluate every locked achievement against the existing history,
+   * e.g. for achievements earned before they could be tracked
+   */
+  async backfillAchievements(): Promise<Achievement[]> {
+    const oldLevel = this.getUserStats().level;
+    const newAchievements = await this.checkAchievements();
+
+    if (newAchievements.length === 0) {
+      return newAchievements;
+    }
+
+    await this.saveUnlockedAchievements();
+
+    const newLevel = this.getUserStats().level;
+    if (newLevel > oldLevel) {
+      this.showLevelUpNotification(oldLevel, newLevel);
+    }
+
+    // One summary rather than a notification per achievement
+    if (newAchievements.length === 1) {
+      this.showAchievementNotification(newAchievements[0]);
+    } else {
+      const xp = newAchievements.reduce((sum, a) => sum + a.reward.xp, 0);
+      vscode.window.showInformationMessage(
+        `🏆 ${newAchievements.length} achievements unlocked from your history: ${newAchievements.map(a => `${a.icon} ${a.name}`).join(', ')} (+${xp} XP)`,
+        'View Achievements'
+      ).then((response) => {
+        if (response === 'View Achievements') {
+          this.showAllAchievements();
+        }
+      });
+    }
+
+    return newAchievements;
+  }
+
   /**
    * Check for achievement unlocks
    */
-  private async checkAchievements(exercise: Exercise): Promise<Achievement[]> {
+  private async checkAchievements(): Promise<Achievement[]> {
     const newAchievements: Achievement[] = [];
+    const history = this.getAchievementHistory();
 
     for (const achievement of ACHIEVEMENTS) {
       // Skip already unlocked
@@ -229,58 +440,58 @@ export class GamificationService {
         continue;
       }
 
-      if (await this.checkAchievementRequirement(achievement, exercise)) {
+      if (this.achievementEngine.evaluate(achievement.requirement, history).met) {
         this.unlockedAchievements.add(achievement.id);
         newAchievements.push(achievement);
 
         // Award achievement reward
-        this.userStats.xp += achievement.reward.xp;
+        await this.ledger.record({
+          type: 'achievement',
+          xp: achievement.reward.xp,
+          points: 0,
+          description: `Achievement: ${achievement.name}`,
+          sourceId: achievement.id
+        });
       }
     }
 
+    this.refreshAchievementsView();
     return newAchievements;
   }
 
   /**
-   * Check if achievement requirement is met
+   * Highest share of the target first; ties go to the fewest steps left
    */
-  private async checkAchievementRequirement(
-    achievement: Achievement,
-    exercise: Exercise
-  ): Promise<boolean> {
-    const req = achievement.requirement;
-
-    switch (req.type) {
-      case 'streak':
-        return this.userStats.streak >= (req.days || 0);
-
-      case 'count':
-        if (req.action === 'break' || req.action === 'exercise') {
-          return this.userStats.totalExercises >= (req.count || 0);
-        }
-        return false;
-
-      case 'time-based':
-        return this.checkTimeBasedAchievement(req);
+  private findNextAchievement(statuses: AchievementStatus[]): AchievementStatus | undefined {
+    return statuses
+      .filter(s => !s.unlocked)
+      .sort((a, b) =>
+        b.progress.percent - a.progress.percent ||
+        (a.progress.target - a.progress.current) - (b.progress.target - b.progress.current)
+      )[0];
+  }
 
-      default:
-        return false;
+  private refreshAchievementsView(): void {
+    if (!this.achievementsView.isOpen()) {
+      return;
     }
+    const statuses = this.getAchievementProgress();
+    this.achievementsView.update(statuses, this.findNextAchievement(statuses));
   }
 
   /**
-   * Check time-based achievement
+   * Gather the history achievements are evaluated against
    */
-  private checkTimeBasedAchievement(req: any): boolean {
-    const hour = new Date().getHours();
-
-    if (req.time === 'morning') {
-      return hour >= 6 && hour < 10;
-    } else if (req.time === 'night') {
-      return hour >= 22 || hour < 6;
-    }
+  private getAchievementHistory(): AchievementHistory {
+    // Streaks come from the activity history, one per working day, not from the stored counters
+    const streaks = this.healthTracker?.getStreaks() || { current: 0, longest: 0 };
 
-    return false;
+    return {
+      activities: this.healthTracker?.getAllActivities() || [],
+      reminders: this.reminderHistory?.getEntries() || [],
+      streak: streaks.current,
+      longestStreak: streaks.longest
+    };
   }
 
   /**
@@ -289,8 +500,8 @@ export class GamificationService {
   private loadOrGenerateDailyQuest(): DailyQuest {
     const stored = this.storage.get<DailyQuest>('dailyQuest');
 
-    // Check if stored quest is from today
-    if (stored && isToday(new Date(stored.date))) {
+    // Keep today's quest unless it predates the quest generator
+    if (stored && isSameDay(new Date(stored.date), this.clock.now()) && stored.tasks.every(t => t.kind)) {
       // Convert date string back to Date object
       return {
         ...stored,
@@ -303,53 +514,10 @@ export class GamificationService {
   }
 
   /**
-   * Generate new daily quest
+   * Generate today's quest, scaled to the current level
    */
   private generateDailyQuest(): DailyQuest {
-    const today = new Date();
-
-    const tasks: QuestTask[] = [
-      {
-        id: 'task_breaks',
-        description: 'Complete 8 micro-breaks',
-        target: 8,
-        current: 0,
-        xp: 40,
-        completed: false
-      },
-      {
-        id: 'task_5min',
-        description: 'Complete a 5-minute exercise',
-        target: 1,
-        current: 0,
-        xp: 30,
-        completed: false
-      },
-      {
-        id: 'task_eyes',
-        description: 'Do 3 eye exercises',
-        target: 3,
-        current: 0,
-        xp: 20,
-        completed: false
-      },
-      {
-        id: 'task_variety',
-        description: 'Try 3 different exercises',
-        target: 3,
-        current: 0,
-        xp: 50,
-        completed: false
-      }
-    ];
-
-    const quest: DailyQuest = {
-      id: `quest_${format(today, 'yyyy-MM-dd')}`,
-      date: today,
-      tasks,
-      totalXP: tasks.reduce((sum, t) => sum + t.xp, 0),
-      completed: false
-    };
+    const quest = this.questGenerator.generate(this.clock.now(), this.getUserStats().level);
 
     this.dailyQuest = quest;
     this.saveDailyQuest();
@@ -358,42 +526,34 @@ export class GamificationService {
   }
 
   /**
-   * Update daily quest progress
+   * Update daily quest progress after a break with the given fully completed exercises
    */
-  private async updateDailyQuestProgress(exercise: Exercise): Promise<void> {
-    if (!this.dailyQuest) {
+  private async updateDailyQuestProgress(exercises: Exercise[], countsAsBreak: boolean): Promise<void> {
+    const quest = this.getDailyQuest();
+    if (!quest) {
       return;
     }
 
     // Update task progress
-    for (const task of this.dailyQuest.tasks) {
-      if (task.completed) {
+    for (const task of quest.tasks) {
+      if (task.completed || task.failed) {
         continue;
       }
 
-      if (task.id === 'task_breaks') {
-        task.current++;
-      } else if (task.id === 'task_5min' && exercise.category === '5min') {
-        task.current++;
-      } else if (task.id === 'task_eyes' && exercise.id === 'eye_exercise') {
-        task.current++;
-      } else if (task.id === 'task_variety') {
-        // Track unique exercises (simplified)
-        task.current++;
-      }
+      task.current = Math.min(task.target, this.measureQuestTask(task, exercises, countsAsBreak));
 
       if (task.current >= task.target) {
         task.completed = true;
-        this.userStats.xp += task.xp;
+        await this.ledger.record({ type: 'quest', xp: task.xp, points: 0, description: task.description, sourceId: task.id });
       }
     }
 
     // Check if all tasks completed
-    const allCompleted = this.dailyQuest.tasks.every(t => t.completed);
-    if (allCompleted && !this.dailyQuest.completed) {
-      this.dailyQuest.completed = true;
+    const allCompleted = quest.tasks.every(t => t.completed);
+    if (allCompleted && !quest.completed) {
+      quest.completed = true;
       // Bonus for completing all tasks
-      this.userStats.xp += 50;
+      await this.ledger.record({ type: 'quest', xp: 50, points: 0, description: 'Daily quest bonus', sourceId: quest.id });
 
       vscode.window.showInformationMessage(
         '🎉 Daily Quest Completed! +50 Bonus XP',
@@ -406,34 +566,224 @@ export class GamificationService {
     }
 
     await this.saveDailyQuest();
-    await this.saveUserStats();
+  }
+
+  /**
+   * New progress value for a quest task
+   */
+  private measureQuestTask(task: QuestTask, exercises: Exercise[], countsAsBreak: boolean): number {
+    const params = task.params || {};
+    const now = this.clock.now();
+
+    switch (task.kind) {
+      case 'breaks':
+        return task.current + (countsAsBreak ? 1 : 0);
+
+      case 'window': {
+        const hour = now.getHours();
+        const inWindow = hour >= (params.startHour ?? 0) && hour < (params.endHour ?? 24);
+        return task.current + (countsAsBreak && inWindow ? 1 : 0);
+      }
+
+      case 'post-commit':
+        return task.current + (countsAsBreak && this.hasCommittedWithin(params.minutes || 15) ? 1 : 0);
+
+      case 'category':
+        return task.current + exercises.filter(e => e.category === params.category).length;
+
+      case 'type':
+        return task.current + exercises.filter(e => e.type === params.exerciseType).length;
+
+      case 'variety': {
+        const matching = exercises.filter(e =>
+          (!params.category || e.category === params.category) && (!params.exerciseType || e.type === params.exerciseType)
+        );
+        task.exerciseIds = Array.from(new Set([...(task.exerciseIds || []), ...matching.map(e => e.id)]));
+        return task.exerciseIds.length;
+      }
+
+      case 'sitting': {
+        if (!this.healthTracker) {
+          return task.current;
+        }
+        const today = this.healthTracker.getHealthMetrics().today;
+        if (today.longestSittingStreak > (params.minutes || 90)) {
+          task.failed = true;
+          return task.current;
+        }
+        return today.codingTime;
+      }
+
+      default:
+        return task.current;
+    }
+  }
+
+  /**
+   * Whether a commit was made in the last N minutes
+   */
+  private hasCommittedWithin(minutes: number): boolean {
+    const since = this.clock.now().getTime() - minutes * 60 * 1000;
+    const commits = this.storage.get<Array<{ timestamp: number }>>('gitCommits', []);
+    return commits.some(c => c.timestamp >= since);
+  }
+
+  /**
+   * Update weekly and monthly challenge progress after a break
+   */
+  private async updateChallengeProgress(exercises: Exercise[], countsAsBreak: boolean): Promise<void> {
+    const challenges = this.getChallenges();
+    if (challenges.length === 0) {
+      return;
+    }
+
+    for (const challenge of challenges) {
+      if (challenge.completed) {
+        continue;
+      }
+
+      challenge.current = Math.min(challenge.target, this.measureQuestTask(challenge, exercises, countsAsBreak));
+
+      if (challenge.current >= challenge.target) {
+        challenge.completed = true;
+        challenge.completedAt = this.clock.now();
+        await this.ledger.record({
+          type: 'challenge',
+          xp: challenge.xp,
+          points: 0,
+          description: challenge.description,
+          sourceId: challenge.id
+        });
+
+        vscode.window.showInformationMessage(
+          `🏅 ${challenge.period === 'week' ? 'Weekly' : 'Monthly'} Challenge Completed: ${challenge.description}! +${challenge.xp} XP`,
+          'View Challenges'
+        ).then((response) => {
+          if (response === 'View Challenges') {
+            this.showChallenges();
+          }
+        });
+      }
+    }
+
+    await this.saveChallenges();
+  }
+
+  /**
+   * Move challenges whose period has ended to the history and generate
+   * challenges for any period without one
+   */
+  private rollOverChallenges(): void {
+    const now = this.clock.now();
+    const expired = this.challenges.filter(c => c.endDate <= now);
+    const current = this.challenges.filter(c => c.startDate <= now && c.endDate > now);
+    const missing = CHALLENGE_PERIODS.filter(period => !current.some(c => c.period === period));
+
+    if (expired.length === 0 && missing.length === 0) {
+      return;
+    }
+
+    for (const period of missing) {
+      const { start, end } = this.getPeriodBounds(period, now);
+      current.push(...this.questGenerator.generateChallenges(period, start, end, this.getUserStats().level));
+    }
+    this.challenges = current;
+    this.saveChallenges();
+
+    if (expired.length > 0) {
+      const history = [...this.getChallengeHistory(), ...expired].slice(-CHALLENGE_HISTORY_LIMIT);
+      this.storage.set('challengeHistory', history);
+    }
+  }
+
+  private getPeriodBounds(period: ChallengePeriod, date: Date): { start: Date; end: Date } {
+    if (period === 'week') {
+      const start = startOfWeek(date);
+      return { start, end: addWeeks(start, 1) };
+    }
+    const start = startOfMonth(date);
+    return { start, end: addMonths(start, 1) };
+  }
+
+  private isChallengesEnabled(): boolean {
+    return vscode.workspace.getConfiguration('codefit').get<boolean>('gamification.challenges', true);
+  }
+
+  private isDailyQuestEnabled(): boolean {
+    return vscode.workspace.getConfiguration('codefit').get<boolean>('gamification.dailyQuests', true);
   }
 
   /**
    * Show daily quest progress
    */
-  showDailyQuestProgress(): void {
-    if (!this.dailyQuest) {
+  async showDailyQuestProgress(): Promise<void> {
+    if (!this.isDailyQuestEnabled()) {
+      vscode.window.showInformationMessage('Daily quests are turned off (codefit.gamification.dailyQuests)');
+      return;
+    }
+
+    // Progress that doesn't depend on exercises (e.g. sitting time) may have moved on
+    await this.updateDailyQuestProgress([], false);
+
+    const quest = this.getDailyQuest();
+    if (!quest) {
       vscode.window.showInformationMessage('No daily quest available');
       return;
     }
 
-    const completed = this.dailyQuest.tasks.filter(t => t.completed).length;
-    const total = this.dailyQuest.tasks.length;
+    const completed = quest.tasks.filter(t => t.completed).length;
+    const total = quest.tasks.length;
+    const difficulty = quest.difficulty ? ` (${quest.difficulty})` : '';
 
     const message = `
-Daily Quest Progress: ${completed}/${total}
+Daily Quest Progress${difficulty}: ${completed}/${total}
 
-${this.dailyQuest.tasks.map(task =>
-      `${task.completed ? '✅' : '⏳'} ${task.description} (${task.current}/${task.target})`
+${quest.tasks.map(task =>
+      `${task.completed ? '✅' : task.failed ? '❌' : '⏳'} ${task.description} (${task.current}/${task.target})`
     ).join('\n')}
 
-Total XP Available: ${this.dailyQuest.totalXP}
+Total XP Available: ${quest.totalXP}
     `.trim();
 
     vscode.window.showInformationMessage(message, 'OK');
   }
 
+  /**
+   * Show this week's and this month's challenges and the most recent past ones
+   */
+  async showChallenges(): Promise<void> {
+    if (!this.isChallengesEnabled()) {
+      vscode.window.showInformationMessage('Challenges are turned off (codefit.gamification.challenges)');
+      return;
+    }
+
+    const challenges = this.getChallenges();
+    const history = this.getChallengeHistory().reverse();
+    const toItem = (c: PersonalChallenge, past: boolean): vscode.QuickPickItem => ({
+      label: `${c.completed ? '✅' : past ? '❌' : '⏳'} ${c.description}`,
+      description: `${c.current}/${c.target} · +${c.xp} XP`,
+      detail: past
+        ? `${format(c.startDate, 'MMM d')} - ${format(c.endDate.getTime() - 1, 'MMM d, yyyy')}`
+        : `Ends ${format(c.endDate.getTime() - 1, 'EEE, MMM d')}`
+    });
+
+    const items: vscode.QuickPickItem[] = [];
+    for (const period of CHALLENGE_PERIODS) {
+      items.push(
+        { label: period === 'week' ? 'This Week' : 'This Month', kind: vscode.QuickPickItemKind.Separator },
+        ...challenges.filter(c => c.period === period).map(c => toItem(c, false))
+      );
+    }
+    if (history.length > 0) {
+      items.push(
+        { label: 'History', kind: vscode.QuickPickItemKind.Separator },
+        ...history.map(c => toItem(c, true))
+      );
+    }
+
+    await vscode.window.showQuickPick(items, { title: 'CodeFit Challenges', placeHolder: 'Weekly and monthly challenges' });
+  }
+
   /**
    * Show level up notification
    */
@@ -467,62 +817,51 @@ Total XP Available: ${this.dailyQuest.totalXP}
   }
 
   /**
-   * Show all achievements
+   * Show all achievements with their progress
    */
   showAllAchievements(): void {
-    const unlocked = this.getUnlockedAchievements();
-    const available = this.getAvailableAchievements();
-
-    const message = `
-Achievements (${unlocked.length}/${ACHIEVEMENTS.length})
-
-Unlocked:
-${unlocked.map(a => `${a.icon} ${a.name}`).join('\n')}
-
-${available.length > 0 ? `\nAvailable:\n${available.slice(0, 5).map(a =>
-      `🔒 ${a.name} - ${a.description}`
-    ).join('\n')}` : ''}
-    `.trim();
+    const statuses = this.getAchievementProgress();
+    this.achievementsView.show(statuses, this.findNextAchievement(statuses));
+  }
 
-    vscode.window.showInformationMessage(message, 'OK');
+  /**
+   * Load unlocked achievements
+   */
+  private loadUnlockedAchievements(): string[] {
+    return this.storage.get<string[]>('unlockedAchievements', []);
   }
 
   /**
-   * Load user stats
+   * Save unlocked achievements
    */
-  private loadUserStats(): UserStats {
-    return this.storage.get<UserStats>('userStats', {
-      healthScore: 100,
-      streak: 0,
-      longestStreak: 0,
-      totalExercises: 0,
-      totalExerciseTime: 0,
-      totalPoints: 0,
-      availablePoints: 0,
-      level: 1,
-      xp: 0
-    });
+  private async saveUnlockedAchievements(): Promise<void> {
+    await this.storage.set('unlockedAchievements', Array.from(this.unlockedAchievements));
   }
 
   /**
-   * Save user stats
+   * Load the current challenges
    */
-  private async saveUserStats(): Promise<void> {
-    await this.storage.set('userStats', this.userStats);
+  private loadChallenges(): PersonalChallenge[] {
+    return this.storage.get<PersonalChallenge[]>('challenges', []).map(c => this.reviveChallenge(c));
   }
 
   /**
-   * Load unlocked achievements
+   * Save the current challenges
    */
-  private loadUnlockedAchievements(): string[] {
-    return this.storage.get<string[]>('unlockedAchievements', []);
+  private async saveChallenges(): Promise<void> {
+    await this.storage.set('challenges', this.challenges);
   }
 
   /**
-   * Save unlocked achievements
+   * Convert stored date strings back to Date objects
    */
-  private async saveUnlockedAchievements(): Promise<void> {
-    await this.storage.set('unlockedAchievements', Array.from(this.unlockedAchievements));
+  private reviveChallenge(challenge: PersonalChallenge): PersonalChallenge {
+    return {
+      ...challenge,
+      startDate: new Date(challenge.startDate),
+      endDate: new Date(challenge.endDate),
+      completedAt: challenge.completedAt ? new Date(challenge.completedAt) : undefined
+    };
   }
 
   /**
@@ -36,6 +36,7 @@ export class GitIntegration {
   private gitAPI?: GitAPI;
   private enabled: boolean = false;
   private lastCommitHash?: string;
+  private lastBranches: Map<Repository, string | undefined> = new Map();
 
   constructor(
     private context: vscode.ExtensionContext,
@@ -93,6 +94,13 @@ export class GitIntegration {
     return this.enabled;
   }
 
+  /**
+   * Check if the workspace has a Git repository
+   */
+  hasRepository(): boolean {
+    return !!this.gitAPI && this.gitAPI.repositories.length > 0;
+  }
+
   /**
    * Setup Git event listeners
    */
@@ -117,6 +125,13 @@ export class GitIntegration {
       return;
     }
 
+    // A branch switch is a natural breakpoint for reminders
+    const branch = repo.state.HEAD?.name;
+    if (this.lastBranches.has(repo) && this.lastBranches.get(repo) !== branch) {
+      this.reminderService.notifyBranchSwitch();
+    }
+    this.lastBranches.set(repo, branch);
+
     const config = vscode.workspace.getConfiguration('codefit');
     if (!config.get('git.commitReminder')) {
       return;
@@ -149,8 +164,11 @@ export class GitIntegration {
   private async handleNewCommit(commit: Commit): Promise<void> {
     console.log(`CodeFit: New commit detected: ${commit.message}`);
 
+    // Keep commit history for stats and reminder replays
+    await this.recordCommit(commit);
+
     // Notify reminder service
-    this.reminderService.notifyCommit(commit.message);
+    this.reminderService.notifyCommit(commit.message, commit.hash);
 
     // Show commit stats if enabled
     await this.showCommitStats(commit);
@@ -202,11 +220,12 @@ export class GitIntegration {
    * Record commit in history
    */
   private async recordCommit(commit: Commit): Promise<void> {
-    const commits = this.context.globalState.get<Array<{ hash: string; timestamp: number }>>('gitCommits', []);
+    const commits = this.context.globalState.get<Array<{ hash: string; timestamp: number; message?: string }>>('gitCommits', []);
 
     commits.push({
       hash: commit.hash,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      message: commit.message
     });
 
     // Keep only last 1000 commits
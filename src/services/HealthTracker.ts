@@ -1,24 +1,70 @@
 import * as vscode from 'vscode';
-import { Activity, HealthMetrics, DailyMetrics, UserStats } from '../types';
+import { Activity, HealthMetrics, DailyMetrics, UserStats, TimelineEntry } from '../types';
 import { StorageManager } from '../utils/storage';
-import { format, startOfDay, startOfWeek, isToday } from 'date-fns';
+import { SittingTimeline } from './SittingTimeline';
+import { DiscomfortTracker, DISCOMFORT_AREAS } from './DiscomfortTracker';
+import { ReminderHistory } from './ReminderHistory';
+import { PointsLedger } from './PointsLedger';
+import { WorkSchedule } from './WorkSchedule';
+import { EYE_EXERCISE_ID, WellnessTrackService } from './WellnessTrackService';
+import { Clock, RandomSource, systemClock, mathRandom } from '../utils/clock';
+import { format, startOfDay, startOfWeek, isSameDay, addDays } from 'date-fns';
 
 export class HealthTracker {
+  private discomfortTracker?: DiscomfortTracker;
+  private reminderHistory?: ReminderHistory;
+  private workSchedule?: WorkSchedule;
+  private wellnessTracks?: WellnessTrackService;
   private currentStats: UserStats;
 
   constructor(
     private context: vscode.ExtensionContext,
-    private storage: StorageManager
+    private storage: StorageManager,
+    private ledger: PointsLedger,
+    private timeline?: SittingTimeline,
+    private clock: Clock = systemClock,
+    private random: RandomSource = mathRandom
   ) {
     this.currentStats = this.loadStats();
   }
 
   /**
-   * Record an activity (exercise, break, etc.)
+   * Set discomfort tracker reference (for trends and insights)
    */
-  async recordActivity(activity: Partial<Activity>): Promise<void> {
+  setDiscomfortTracker(tracker: DiscomfortTracker): void {
+    this.discomfortTracker = tracker;
+  }
+
+  /**
+   * Set reminder history reference (for the compliance metric)
+   */
+  setReminderHistory(history: ReminderHistory): void {
+    this.reminderHistory = history;
+  }
+
+  /**
+   * Set work schedule reference (streaks only count working days)
+   */
+  setWorkSchedule(schedule: WorkSchedule): void {
+    this.workSchedule = schedule;
+  }
+
+  /**
+   * Set wellness track reference (hydration, eye break and posture metrics)
+   */
+  setWellnessTracks(tracks: WellnessTrackService): void {
+    this.wellnessTracks = tracks;
+    this.context.subscriptions.push(tracks.onDidChange(() => this.updateHealthScore()));
+  }
+
+  /**
+   * Record an activity (exercise, break, etc.); its points are awarded
+   * through the points ledger
+   */
+  async recordActivity(activity: Partial<Activity>): Promise<Activity> {
     // Generate activity ID
-    const activityId = `activity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const activityId = `activity_${this.clock.now().getTime()}_${this.random.next().toString(36).substr(2, 9)}`;
+    const completionStatus = activity.completionStatus || 'completed';
 
     const fullActivity: Activity = {
       id: activityId,
@@ -27,10 +73,13 @@ export class HealthTracker {
       exerciseId: activity.exerciseId || '',
       exerciseName: activity.exerciseName || '',
       duration: activity.duration || 0,
+      completionStatus,
+      stepsCompleted: activity.stepsCompleted,
+      totalSteps: activity.totalSteps,
       caloriesBurned: activity.caloriesBurned || 0,
-      pointsEarned: this.calculatePoints(activity.duration || 0),
+      pointsEarned: 0,
       pointsBreakdown: {
-        base: this.calculateBasePoints(activity.duration || 0),
+        base: 0,
         multipliers: [],
         bonus: 0
       },
@@ -38,26 +87,60 @@ export class HealthTracker {
       triggeredBy: activity.triggeredBy || 'manual',
       teamId: activity.teamId,
       challengeId: activity.challengeId,
-      startedAt: activity.startedAt || new Date(),
-      completedAt: activity.completedAt || new Date(),
-      createdAt: new Date()
+      routineId: activity.routineId,
+      startedAt: activity.startedAt || this.clock.now(),
+      completedAt: activity.completedAt || this.clock.now(),
+      createdAt: this.clock.now()
     };
 
     // Save activity
     await this.saveActivity(fullActivity);
 
+    // Abandoned exercises are kept for history but don't count as breaks
+    if (completionStatus === 'abandoned') {
+      return fullActivity;
+    }
+
+    // Mark the break on the sitting timeline
+    if (this.timeline) {
+      await this.timeline.addEntry({
+        type: 'break',
+        start: fullActivity.startedAt,
+        end: fullActivity.completedAt,
+        activityId: fullActivity.id
+      });
+    }
+
     // Update stats
     await this.updateStats(fullActivity);
 
     // Update health score
     await this.updateHealthScore();
+
+    return fullActivity;
+  }
+
+  /**
+   * Record time away from the keyboard as an implicit break on the sitting timeline
+   */
+  async recordImplicitBreak(start: Date, end: Date): Promise<void> {
+    if (this.timeline) {
+      await this.timeline.addEntry({ type: 'break', start, end });
+    }
   }
 
   /**
    * Get current user stats
    */
   getStats(): UserStats {
-    return { ...this.currentStats };
+    const balance = this.ledger.getBalance();
+    return {
+      ...this.currentStats,
+      xp: balance.xp,
+      level: balance.level,
+      totalPoints: balance.totalPoints,
+      availablePoints: balance.availablePoints
+    };
   }
 
   /**
@@ -65,12 +148,12 @@ export class HealthTracker {
    */
   getHealthMetrics(): HealthMetrics {
     const activities = this.getActivities();
-    const today = this.getActivitiesForDate(new Date());
+    const today = this.getActivitiesForDate(this.clock.now());
     const thisWeek = this.getActivitiesThisWeek();
 
     const todayMetrics = this.calculateDailyMetrics(today);
     const weekMetrics = {
-      totalCodingTime: this.estimateCodingTime(),
+      totalCodingTime: this.getCodingTimeThisWeek(),
       totalBreaks: thisWeek.length,
       averageHealthScore: this.currentStats.healthScore,
       streak: this.currentStats.streak,
@@ -92,31 +175,32 @@ export class HealthTracker {
    * Calculate health score
    */
   calculateHealthScore(): number {
-    const today = this.getActivitiesForDate(new Date());
+    const today = this.getActivitiesForDate(this.clock.now());
     const dailyMetrics = this.calculateDailyMetrics(today);
 
     let score = 100;
 
-    // Factor 1: Break frequency (40% weight)
+    // Factor 1: Break frequency (30% weight)
+    // No breaks are due until at least an hour of coding has been tracked
     const breakRatio = dailyMetrics.breaksRecommended > 0
       ? dailyMetrics.breaksTaken / dailyMetrics.breaksRecommended
-      : 0;
+      : 1;
 
     if (breakRatio < 0.5) {
-      score -= 40;
+      score -= 30;
     } else if (breakRatio < 0.7) {
-      score -= 20;
+      score -= 15;
     } else if (breakRatio < 0.9) {
-      score -= 10;
+      score -= 8;
     }
 
-    // Factor 2: Longest sitting streak (30% weight)
+    // Factor 2: Longest sitting streak (25% weight)
     if (dailyMetrics.longestSittingStreak > 120) {
-      score -= 30;
+      score -= 25;
     } else if (dailyMetrics.longestSittingStreak > 90) {
-      score -= 20;
+      score -= 17;
     } else if (dailyMetrics.longestSittingStreak > 60) {
-      score -= 10;
+      score -= 8;
     }
 
     // Factor 3: Exercise duration (15% weight)
@@ -126,17 +210,52 @@ export class HealthTracker {
       score -= 8;
     }
 
-    // Factor 4: Variety bonus (15% weight)
+    // Factor 4: Variety bonus (10% weight)
     const uniqueExercises = new Set(today.map(a => a.exerciseId)).size;
     if (uniqueExercises < 2) {
-      score -= 15;
+      score -= 10;
     } else if (uniqueExercises < 3) {
-      score -= 8;
+      score -= 5;
     }
 
+    // Factor 5: Hydration (10% weight), against the share of the target due
+    // after today's coding time (the full target after 8 hours)
+    const waterDue = dailyMetrics.waterTarget * Math.min(1, dailyMetrics.codingTime / 480);
+    if (waterDue >= 1) {
+      const waterRatio = dailyMetrics.waterGlasses / waterDue;
+      if (waterRatio < 0.5) {
+        score -= 10;
+      } else if (waterRatio < 0.8) {
+        score -= 5;
+      }
+    }
+
+    // Factor 6: Eye breaks (5% weight)
+    score -= this.getTrackPenalty(dailyMetrics.eyeBreaksTaken, dailyMetrics.eyeBreaksRecommended);
+
+    // Factor 7: Posture checks (5% weight)
+    score -= this.getTrackPenalty(dailyMetrics.postureChecks, dailyMetrics.postureChecksRecommended);
+
     return Math.max(0, Math.min(100, Math.round(score)));
   }
 
+  /**
+   * Score penalty (out of 5) for an eye break or posture track falling behind
+   */
+  private getTrackPenalty(taken: number, recommended: number): number {
+    if (recommended === 0) {
+      return 0; // Track is off or nothing is due yet
+    }
+
+    const ratio = taken / recommended;
+    if (ratio < 0.5) {
+      return 5;
+    } else if (ratio < 0.8) {
+      return 2;
+    }
+    return 0;
+  }
+
   /**
    * Update health score
    */
@@ -149,29 +268,42 @@ export class HealthTracker {
    * Update streak
    */
   private async updateStreak(): Promise<void> {
-    const activities = this.getActivities();
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    const hasActivityToday = activities.some(a => isToday(a.createdAt));
-    const hasActivityYesterday = activities.some(a =>
-      format(a.createdAt, 'yyyy-MM-dd') === format(yesterday, 'yyyy-MM-dd')
-    );
+    const { current, longest } = this.getStreaks();
+    this.currentStats.streak = current;
+    // Activities are capped, so a streak from before the oldest one is only known from the stats
+    this.currentStats.longestStreak = Math.max(this.currentStats.longestStreak, longest);
 
-    if (hasActivityToday) {
-      if (hasActivityYesterday || this.currentStats.streak === 0) {
-        this.currentStats.streak++;
-      }
+    await this.saveStats();
+  }
 
-      if (this.currentStats.streak > this.currentStats.longestStreak) {
-        this.currentStats.longestStreak = this.currentStats.streak;
-      }
-    } else if (!hasActivityYesterday && this.currentStats.streak > 0) {
-      // Streak broken
-      this.currentStats.streak = 0;
+  /**
+   * Current and longest run of working days with a break, from the activity history.
+   * Each day counts once; days off don't break a run, and breaks outside working hours don't count.
+   */
+  getStreaks(): { current: number; longest: number } {
+    const days = Array.from(new Set(this.getCountedActivities()
+      .filter(a => !this.workSchedule || this.workSchedule.isWorkingTime(a.createdAt))
+      .map(a => format(a.createdAt, 'yyyy-MM-dd'))
+    )).sort();
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | undefined;
+    for (const day of days) {
+      run = previous && this.getPreviousWorkingDayKey(new Date(`${day}T12:00:00`)) === previous ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = day;
     }
 
-    await this.saveStats();
+    // The run is still going if its last day is today or the last working day
+    const now = this.clock.now();
+    const current = previous === format(now, 'yyyy-MM-dd') || previous === this.getPreviousWorkingDayKey(now) ? run : 0;
+    return { current, longest };
+  }
+
+  private getPreviousWorkingDayKey(date: Date): string {
+    const previous = this.workSchedule ? this.workSchedule.getPreviousWorkingDay(date) : addDays(date, -1);
+    return format(previous, 'yyyy-MM-dd');
   }
 
   /**
@@ -219,8 +351,9 @@ export class HealthTracker {
     const data = {
       stats: this.currentStats,
       activities: this.getActivities(),
+      timeline: this.timeline ? this.timeline.getAllEntries() : {},
       metrics: this.getHealthMetrics(),
-      exportedAt: new Date().toISOString()
+      exportedAt: this.clock.now().toISOString()
     };
 
     const json = JSON.stringify(data, null, 2);
@@ -229,7 +362,7 @@ export class HealthTracker {
       filters: {
         'JSON': ['json']
       },
-      defaultUri: vscode.Uri.file(`codefit-data-${format(new Date(), 'yyyy-MM-dd')}.json`)
+      defaultUri: vscode.Uri.file(`codefit-data-${format(this.clock.now(), 'yyyy-MM-dd')}.json`)
     });
 
     if (uri) {
@@ -245,64 +378,64 @@ export class HealthTracker {
     const totalDuration = activities.reduce((sum, a) => sum + a.duration, 0);
     const totalCalories = activities.reduce((sum, a) => sum + a.caloriesBurned, 0);
 
-    // Estimate coding time (8 hours default, can be improved)
-    const codingTime = 480; // minutes
+    const codingTime = this.timeline
+      ? this.timeline.getWorkMinutesForDate(this.clock.now())
+      : 0;
 
     // Recommend breaks every 60 minutes
     const recommended = Math.floor(codingTime / 60);
+    const tracks = this.wellnessTracks;
+    const trackDue = (track: 'eyes' | 'posture') => tracks?.isEnabled(track)
+      ? Math.floor(codingTime / tracks.getIntervalMinutes(track))
+      : 0;
 
     return {
       codingTime,
-      breaksTaken: activities.length,
+      breaksTaken: activities.length + this.getImplicitBreakCount(this.clock.now()),
       breaksRecommended: recommended,
       exerciseDuration: Math.floor(totalDuration / 60),
       caloriesBurned: totalCalories,
       healthScore: this.currentStats.healthScore,
-      longestSittingStreak: this.calculateLongestSittingStreak(activities)
+      longestSittingStreak: this.calculateLongestSittingStreak(this.clock.now()),
+      waterGlasses: tracks?.getCount('hydration') || 0,
+      waterTarget: tracks?.isEnabled('hydration') ? tracks.getWaterTarget() : 0,
+      // Quick 20-20-20 breaks are logged by the track; guided eye exercises are activities
+      eyeBreaksTaken: (tracks?.getCount('eyes') || 0) + activities.filter(a => a.exerciseId === EYE_EXERCISE_ID).length,
+      eyeBreaksRecommended: trackDue('eyes'),
+      postureChecks: tracks?.getCount('posture') || 0,
+      postureChecksRecommended: trackDue('posture')
     };
   }
 
   /**
-   * Calculate longest sitting streak
+   * Count implicit breaks (time away from the keyboard) on a date
    */
-  private calculateLongestSittingStreak(activities: Activity[]): number {
-    if (activities.length === 0) {
-      return 480; // Assume full work day if no breaks
+  private getImplicitBreakCount(date: Date): number {
+    if (!this.timeline) {
+      return 0;
     }
+    return this.timeline.getEntriesForDate(date).filter(e => e.type === 'break' && !e.activityId).length;
+  }
 
-    const sortedActivities = activities.sort((a, b) =>
-      a.completedAt.getTime() - b.completedAt.getTime()
-    );
-
-    let longestStreak = 0;
-    let currentStreak = 0;
-    let lastActivityTime = startOfDay(new Date()).getTime();
-
-    for (const activity of sortedActivities) {
-      const gap = activity.startedAt.getTime() - lastActivityTime;
-      const gapMinutes = gap / (1000 * 60);
-
-      currentStreak += gapMinutes;
-      longestStreak = Math.max(longestStreak, currentStreak);
-
-      currentStreak = 0;
-      lastActivityTime = activity.completedAt.getTime();
+  /**
+   * Calculate longest sitting streak from the sitting timeline
+   */
+  private calculateLongestSittingStreak(date: Date): number {
+    if (!this.timeline) {
+      return 0;
     }
 
-    // Add time since last activity
-    const now = new Date().getTime();
-    const finalGap = (now - lastActivityTime) / (1000 * 60);
-    currentStreak += finalGap;
-    longestStreak = Math.max(longestStreak, currentStreak);
+    const config = vscode.workspace.getConfiguration('codefit');
+    const idleThreshold = config.get<number>('tracking.idleThreshold', 5);
 
-    return Math.round(longestStreak);
+    return this.timeline.getLongestSittingStreak(date, Math.max(1, idleThreshold));
   }
 
   /**
    * Get activities for specific date
    */
   private getActivitiesForDate(date: Date): Activity[] {
-    const activities = this.getActivities();
+    const activities = this.getCountedActivities();
     const dateStr = format(date, 'yyyy-MM-dd');
 
     return activities.filter(a =>
@@ -314,8 +447,8 @@ export class HealthTracker {
    * Get activities for this week
    */
   private getActivitiesThisWeek(): Activity[] {
-    const activities = this.getActivities();
-    const weekStart = startOfWeek(new Date());
+    const activities = this.getCountedActivities();
+    const weekStart = startOfWeek(this.clock.now());
 
     return activities.filter(a => a.createdAt >= weekStart);
   }
@@ -325,15 +458,29 @@ export class HealthTracker {
    */
   private getActivities(): Activity[] {
     const stored = this.storage.get<Activity[]>('activities', []);
+    const awards = this.ledger.getActivityEntries();
+
     // Convert date strings back to Date objects
     return stored.map(a => ({
       ...a,
+      // Activities recorded before completion tracking were always full completions
+      completionStatus: a.completionStatus || 'completed',
+      // Points come from the ledger; activities recorded before it keep their own
+      pointsEarned: awards.get(a.id)?.points ?? a.pointsEarned,
+      pointsBreakdown: awards.get(a.id)?.breakdown || a.pointsBreakdown,
       startedAt: new Date(a.startedAt),
       completedAt: new Date(a.completedAt),
       createdAt: new Date(a.createdAt)
     }));
   }
 
+  /**
+   * Get activities that count towards breaks and stats (not abandoned)
+   */
+  private getCountedActivities(): Activity[] {
+    return this.getActivities().filter(a => a.completionStatus !== 'abandoned');
+  }
+
   /**
    * Get all activities (public accessor for cloud sync)
    */
@@ -360,33 +507,16 @@ export class HealthTracker {
    * Update stats after activity
    */
   private async updateStats(activity: Activity): Promise<void> {
-    this.currentStats.totalExercises++;
+    if (activity.completionStatus === 'completed') {
+      this.currentStats.totalExercises++;
+    }
     this.currentStats.totalExerciseTime += Math.floor(activity.duration / 60);
-    this.currentStats.totalPoints += activity.pointsEarned;
-    this.currentStats.availablePoints += activity.pointsEarned;
-
-    await this.updateStreak();
-    await this.saveStats();
-  }
 
-  /**
-   * Calculate points for activity
-   */
-  private calculatePoints(duration: number): number {
-    return this.calculateBasePoints(duration);
-  }
-
-  /**
-   * Calculate base points
-   */
-  private calculateBasePoints(duration: number): number {
-    if (duration <= 60) {
-      return 5;
-    } else if (duration <= 180) {
-      return 15;
-    } else {
-      return 30;
+    // Streak accounting is suspended outside working hours
+    if (!this.workSchedule || this.workSchedule.isWorkingTime(activity.createdAt)) {
+      await this.updateStreak();
     }
+    await this.saveStats();
   }
 
   /**
@@ -412,8 +542,8 @@ export class HealthTracker {
    * Get monthly trend
    */
   private getMonthlyTrend(): Array<{ date: Date; value: number }> {
-    const activities = this.getActivities();
-    const last30Days = new Date();
+    const activities = this.getCountedActivities();
+    const last30Days = this.clock.now();
     last30Days.setDate(last30Days.getDate() - 30);
 
     const recentActivities = activities.filter(a => a.createdAt >= last30Days);
@@ -441,7 +571,7 @@ export class HealthTracker {
       insights.push(`Great ${weekMetrics.streak}-day streak! Keep it up!`);
     }
 
-    if (todayMetrics.breaksTaken >= todayMetrics.breaksRecommended) {
+    if (todayMetrics.breaksRecommended > 0 && todayMetrics.breaksTaken >= todayMetrics.breaksRecommended) {
       insights.push('You\'re taking all recommended breaks today!');
     }
 
@@ -470,16 +600,41 @@ export class HealthTracker {
       concerns.push('Start a new streak today!');
     }
 
+    // Issues reported on 3 or more of the last 7 days
+    const history = this.discomfortTracker?.getIssueHistory(7) || {};
+    for (const area of DISCOMFORT_AREAS) {
+      const days = (history[area.issue] || []).filter(d => d.count > 0).length;
+      if (days >= 3) {
+        concerns.push(`${area.label} bothered you on ${days} of the last 7 days. Targeted exercises are now recommended first.`);
+      }
+    }
+
     return concerns;
   }
 
   /**
-   * Estimate coding time
+   * Get tracked coding time for this week (minutes)
    */
-  private estimateCodingTime(): number {
-    // This is a simplified estimation
-    // In a real app, this could track actual editor activity
-    return 40 * 60; // 40 hours per week in minutes
+  private getCodingTimeThisWeek(): number {
+    if (!this.timeline) {
+      return 0;
+    }
+
+    const today = startOfDay(this.clock.now());
+    let total = 0;
+
+    for (let day = startOfWeek(today); day <= today; day = addDays(day, 1)) {
+      total += this.timeline.getWorkMinutesForDate(day);
+    }
+
+    return total;
+  }
+
+  /**
+   * Get sitting timeline entries for a specific date
+   */
+  getTimelineForDate(date: Date): TimelineEntry[] {
+    return this.timeline ? this.timeline.getEntriesForDate(date) : [];
   }
 
   /**
@@ -494,6 +649,7 @@ export class HealthTracker {
 🏆 Level ${stats.level} (${stats.xp} XP)
 
 Today:
+⌨️ Coding: ${metrics.today.codingTime} min
 ✅ Breaks: ${metrics.today.breaksTaken}/${metrics.today.breaksRecommended}
 💪 Exercise: ${metrics.today.exerciseDuration} min
 🔥 Calories: ${metrics.today.caloriesBurned} kcal
@@ -505,6 +661,146 @@ Total:
 `.trim();
   }
 
+  /**
+   * Format minutes as hours and minutes
+   */
+  private formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  }
+
+  /**
+   * Get Gantt-style timeline strips for the last 7 days
+   */
+  private getTimelineHtml(): string {
+    const days: Array<{ date: Date; entries: TimelineEntry[] }> = [];
+    for (let i = 0; i < 7; i++) {
+      const date = addDays(startOfDay(this.clock.now()), -i);
+      days.push({ date, entries: this.getTimelineForDate(date) });
+    }
+
+    // Fit the visible window to the hours that have any entries
+    const hours = days.flatMap(d => d.entries.flatMap(e => [
+      e.start.getHours(),
+      e.end.getHours() + (e.end.getMinutes() > 0 ? 1 : 0)
+    ]));
+    const firstHour = hours.length > 0 ? Math.min(8, ...hours) : 8;
+    const lastHour = hours.length > 0 ? Math.max(18, ...hours) : 18;
+    const spanMinutes = (lastHour - firstHour) * 60;
+
+    const rows = days.map(({ date, entries }) => {
+      const dayStart = startOfDay(date).getTime() + firstHour * 60 * 60 * 1000;
+      const blocks = entries.map(e => {
+        const left = Math.max(0, (e.start.getTime() - dayStart) / 60000 / spanMinutes * 100);
+        const width = Math.max(0.2, (e.end.getTime() - e.start.getTime()) / 60000 / spanMinutes * 100);
+        const title = `${e.type}: ${format(e.start, 'HH:mm')}–${format(e.end, 'HH:mm')}`;
+        return `<div class="timeline-block timeline-${e.type}" style="left: ${left}%; width: ${width}%" title="${title}"></div>`;
+      }).join('');
+
+      const label = isSameDay(date, this.clock.now()) ? 'Today' : format(date, 'EEE MMM d');
+      return `<div class="timeline-row"><div class="timeline-label">${label}</div><div class="timeline-strip">${blocks}</div></div>`;
+    }).join('');
+
+    const ticks: string[] = [];
+    for (let h = firstHour; h <= lastHour; h += 2) {
+      ticks.push(`<span>${String(h % 24).padStart(2, '0')}:00</span>`);
+    }
+
+    return `
+    <div class="timeline-legend">
+      <span><span class="timeline-block timeline-work" style="position: static; display: inline-block; width: 10px; height: 10px;"></span> Work</span>
+      <span><span class="timeline-block timeline-break" style="position: static; display: inline-block; width: 10px; height: 10px;"></span> Break</span>
+      <span><span class="timeline-block timeline-idle" style="position: static; display: inline-block; width: 10px; height: 10px;"></span> Idle</span>
+    </div>
+    ${rows}
+    <div class="timeline-axis">${ticks.join('')}</div>`;
+  }
+
+  /**
+   * Get per-issue discomfort bar charts for the last 14 days
+   */
+  private getDiscomfortTrendsHtml(): string {
+    if (!this.discomfortTracker) {
+      return '';
+    }
+
+    const history = this.discomfortTracker.getIssueHistory(14);
+    const areas = DISCOMFORT_AREAS.filter(area => history[area.issue]);
+
+    if (areas.length === 0) {
+      return '<div class="insight">No discomfort reported in the last 14 days. Run "CodeFit: Check In" to log how you feel.</div>';
+    }
+
+    return areas.map(area => {
+      const days = history[area.issue];
+      const max = Math.max(...days.map(d => d.count));
+      const lastWeek = days.slice(7).reduce((sum, d) => sum + d.count, 0);
+      const previousWeek = days.slice(0, 7).reduce((sum, d) => sum + d.count, 0);
+      const trend = lastWeek > previousWeek ? '↑' : lastWeek < previousWeek ? '↓' : '→';
+
+      const bars = days.map(d => {
+        const height = d.count > 0 ? Math.max(15, d.count / max * 100) : 0;
+        return `<div class="trend-bar" style="height: ${height}%" title="${format(d.date, 'EEE MMM d')}: ${d.count}"></div>`;
+      }).join('');
+
+      return `<div class="timeline-row"><div class="timeline-label">${area.icon} ${area.label} ${trend}</div><div class="trend-bars">${bars}</div><div class="trend-total">${lastWeek} this week</div></div>`;
+    }).join('');
+  }
+
+  /**
+   * Get today's hydration, eye break and posture metrics (enabled tracks only)
+   */
+  private getWellnessTracksHtml(today: DailyMetrics): string {
+    if (!this.wellnessTracks) {
+      return '';
+    }
+
+    const rows: Array<{ title: string; taken: number; target: number; unit: string }> = [];
+    if (this.wellnessTracks.isEnabled('hydration')) {
+      rows.push({ title: '💧 Water', taken: today.waterGlasses, target: today.waterTarget, unit: 'glasses' });
+    }
+    if (this.wellnessTracks.isEnabled('eyes')) {
+      rows.push({ title: '👁️ Eye Breaks', taken: today.eyeBreaksTaken, target: today.eyeBreaksRecommended, unit: 'due so far' });
+    }
+    if (this.wellnessTracks.isEnabled('posture')) {
+      rows.push({ title: '🧍 Posture Checks', taken: today.postureChecks, target: today.postureChecksRecommended, unit: 'due so far' });
+    }
+
+    return rows.map(row => `
+    <div class="metric">
+      <div class="metric-title">${row.title}</div>
+      <div class="metric-value">${row.taken}/${row.target} <span class="metric-title">${row.unit}</span></div>
+      <div class="progress-bar">
+        <div class="progress-fill" style="width: ${row.target > 0 ? Math.min(100, row.taken / row.target * 100) : 100}%"></div>
+      </div>
+    </div>`).join('');
+  }
+
+  /**
+   * Get the reminder compliance metric for the last 7 days
+   */
+  private getReminderComplianceHtml(): string {
+    if (!this.reminderHistory) {
+      return '';
+    }
+
+    const compliance = this.reminderHistory.getCompliance(7);
+    if (compliance.shown === 0) {
+      return '';
+    }
+
+    return `
+    <div class="metric">
+      <div class="metric-title">Reminder Compliance (7 days)</div>
+      <div class="metric-value">${compliance.rate}%</div>
+      <div class="metric-title">${compliance.accepted} accepted · ${compliance.snoozed} snoozed · ${compliance.ignored} ignored</div>
+      <div class="progress-bar">
+        <div class="progress-fill" style="width: ${compliance.rate}%"></div>
+      </div>
+    </div>`;
+  }
+
   /**
    * Get dashboard HTML
    */
@@ -579,6 +875,65 @@ Total:
     .concern {
       border-left-color: #f59e0b;
     }
+    .timeline-row {
+      display: flex;
+      align-items: center;
+      margin: 6px 0;
+    }
+    .timeline-label {
+      width: 90px;
+      font-size: 12px;
+      opacity: 0.8;
+    }
+    .timeline-strip {
+      position: relative;
+      flex: 1;
+      height: 18px;
+      background: var(--vscode-editor-inactiveSelectionBackground);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+    .timeline-block {
+      position: absolute;
+      top: 0;
+      height: 100%;
+    }
+    .timeline-work { background: #3b82f6; }
+    .timeline-break { background: #10b981; }
+    .timeline-idle { background: #6b7280; opacity: 0.6; }
+    .timeline-axis {
+      display: flex;
+      justify-content: space-between;
+      margin-left: 90px;
+      font-size: 11px;
+      opacity: 0.6;
+    }
+    .trend-bars {
+      display: flex;
+      align-items: flex-end;
+      gap: 3px;
+      flex: 1;
+      height: 30px;
+      padding: 2px;
+      background: var(--vscode-editor-inactiveSelectionBackground);
+      border-radius: 4px;
+    }
+    .trend-bar {
+      flex: 1;
+      background: #f59e0b;
+      border-radius: 2px 2px 0 0;
+    }
+    .trend-total {
+      width: 90px;
+      margin-left: 10px;
+      font-size: 12px;
+      opacity: 0.8;
+    }
+    .timeline-legend span {
+      display: inline-block;
+      margin-right: 15px;
+      font-size: 12px;
+    }
   </style>
 </head>
 <body>
@@ -594,11 +949,16 @@ Total:
 
   <div class="section">
     <div class="section-title">Today's Activity</div>
+    <div class="metric">
+      <div class="metric-title">Active Coding Time</div>
+      <div class="metric-value">${this.formatMinutes(metrics.today.codingTime)}</div>
+      <div class="metric-title">This week: ${this.formatMinutes(metrics.week.totalCodingTime)}</div>
+    </div>
     <div class="metric">
       <div class="metric-title">Breaks Taken</div>
       <div class="metric-value">${metrics.today.breaksTaken}/${metrics.today.breaksRecommended}</div>
       <div class="progress-bar">
-        <div class="progress-fill" style="width: ${(metrics.today.breaksTaken / metrics.today.breaksRecommended) * 100}%"></div>
+        <div class="progress-fill" style="width: ${metrics.today.breaksRecommended > 0 ? Math.min(100, (metrics.today.breaksTaken / metrics.today.breaksRecommended) * 100) : 100}%"></div>
       </div>
     </div>
     <div class="metric">
@@ -609,6 +969,22 @@ Total:
       <div class="metric-title">Calories Burned</div>
       <div class="metric-value">${metrics.today.caloriesBurned} kcal</div>
     </div>
+    ${this.getWellnessTracksHtml(metrics.today)}
+    ${this.getReminderComplianceHtml()}
+  </div>
+
+  <div class="section">
+    <div class="section-title">Day View</div>
+    <div class="metric">
+      <div class="metric-title">Longest Sitting Streak Today</div>
+      <div class="metric-value">${this.formatMinutes(metrics.today.longestSittingStreak)}</div>
+    </div>
+    ${this.getTimelineHtml()}
+  </div>
+
+  <div class="section">
+    <div class="section-title">Discomfort Trends</div>
+    ${this.getDiscomfortTrendsHtml()}
   </div>
 
   <div class="section">
@@ -662,6 +1038,7 @@ Total:
    * Save stats to storage
    */
   private async saveStats(): Promise<void> {
-    await this.storage.set('userStats', this.currentStats);
+    // XP, level and points are saved as derived from the ledger
+    await this.storage.set('userStats', this.getStats());
   }
 }
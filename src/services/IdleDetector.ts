@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { ActivityTracker } from './ActivityTracker';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export interface AwayPeriod {
+  start: Date;
+  end: Date;
+  minutes: number;
+  suspended: boolean; // the machine was asleep in between
+}
+
+const TICK_MS = 30 * 1000;
+const SUSPEND_GAP_MS = 2 * 60 * 1000;
+const SHARE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Detects when the user is away from the keyboard and when they come back.
+ *
+ * Input is every editor signal the activity tracker sees. The user counts as
+ * away once there has been no input for `codefit.idle.awayMinutes`, which is
+ * never shorter than the tracker's `codefit.tracking.idleThreshold`: an
+ * absence always closes the coding session first. Locking the screen shows
+ * up as the window losing focus, and timers that fire late mean the machine
+ * was suspended. Input seen by other windows is fed in through
+ * `recordActivity` so switching windows isn't mistaken for being away.
+ */
+export class IdleDetector {
+  private lastInput: Date;
+  private lastTick: Date;
+  private lastShared = 0;
+  private suspended = false;
+  private timer?: TimerHandle;
+  private disposables: vscode.Disposable[] = [];
+  private onDidReturnEmitter = new vscode.EventEmitter<AwayPeriod>();
+  private onDidRecordInputEmitter = new vscode.EventEmitter<Date>();
+
+  /** Fires on the first input after being away */
+  readonly onDidReturn = this.onDidReturnEmitter.event;
+
+  /** Fires for local input, at most every 30 seconds (for sharing with other windows) */
+  readonly onDidRecordInput = this.onDidRecordInputEmitter.event;
+
+  constructor(
+    private activityTracker: ActivityTracker,
+    private clock: Clock = systemClock
+  ) {
+    this.lastInput = this.activityTracker.getLastSignalTime() || this.clock.now();
+    this.lastTick = this.clock.now();
+  }
+
+  /**
+   * Start listening for input and watching for suspends
+   */
+  start(): void {
+    this.disposables.push(
+      this.onDidReturnEmitter,
+      this.onDidRecordInputEmitter,
+      this.activityTracker.onDidRecordSignal(() => this.recordInput())
+    );
+
+    this.timer = this.clock.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  /**
+   * Whether there has been no input for the away threshold
+   */
+  isAway(): boolean {
+    if (!this.isEnabled()) {
+      return false;
+    }
+    return this.clock.now().getTime() - this.lastInput.getTime() >= this.getAwayMinutes() * 60 * 1000;
+  }
+
+  /**
+   * Minutes since the last input here or in another window
+   */
+  getIdleMinutes(): number {
+    return Math.floor((this.clock.now().getTime() - this.lastInput.getTime()) / 60000);
+  }
+
+  /**
+   * Record input in this window, reporting a return if the user was away
+   */
+  recordInput(): void {
+    const now = this.clock.now();
+    const away = this.isAway();
+
+    if (away) {
+      this.onDidReturnEmitter.fire({
+        start: this.lastInput,
+        end: now,
+        minutes: Math.round((now.getTime() - this.lastInput.getTime()) / 60000),
+        suspended: this.suspended
+      });
+    }
+
+    this.lastInput = now;
+    this.suspended = false;
+
+    if (away || now.getTime() - this.lastShared >= SHARE_INTERVAL_MS) {
+      this.lastShared = now.getTime();
+      this.onDidRecordInputEmitter.fire(now);
+    }
+  }
+
+  /**
+   * Record input seen by another window; the user is present, but the return
+   * (if any) is reported by that window
+   */
+  recordActivity(time: Date): void {
+    if (time > this.lastInput) {
+      this.lastInput = time;
+      this.suspended = false;
+    }
+  }
+
+  dispose(): void {
+    this.timer?.cancel();
+    this.timer = undefined;
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('codefit').get<boolean>('idle.enabled', true);
+  }
+
+  private getAwayMinutes(): number {
+    const awayMinutes = vscode.workspace.getConfiguration('codefit').get<number>('idle.awayMinutes', 10);
+    return Math.max(this.activityTracker.getIdleThresholdMs() / 60000, awayMinutes);
+  }
+
+  /**
+   * A tick much later than scheduled means the machine was asleep
+   */
+  private tick(): void {
+    const now = this.clock.now();
+    if (now.getTime() - this.lastTick.getTime() >= SUSPEND_GAP_MS) {
+      this.suspended = true;
+    }
+    this.lastTick = now;
+  }
+}
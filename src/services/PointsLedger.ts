@@ -0,0 +1,154 @@
+import { LedgerEntry, PointsBreakdown, UserStats } from '../types';
+import { LEVELS } from '../constants/achievements';
+import { StorageManager } from '../utils/storage';
+import { Clock, RandomSource, systemClock, mathRandom } from '../utils/clock';
+
+export interface LedgerBalance {
+  xp: number;
+  level: number;
+  totalPoints: number; // everything earned
+  availablePoints: number; // earned minus spent
+}
+
+const MAX_ENTRIES = 5000;
+const COMPACT_TO = 4000;
+
+/**
+ * Points for a breakdown: the base times every multiplier, plus the bonus
+ */
+export function sumBreakdown(breakdown: PointsBreakdown): number {
+  const multiplier = breakdown.multipliers.reduce((product, m) => product * m.value, 1);
+  return Math.round(breakdown.base * multiplier) + breakdown.bonus;
+}
+
+/**
+ * Level reached with the given XP
+ */
+export function getLevelForXP(xp: number): number {
+  for (let i = LEVELS.length - 1; i >= 0; i--) {
+    if (xp >= LEVELS[i].xpRequired) {
+      return LEVELS[i].level;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Append-only record of every XP and points award.
+ *
+ * XP, level and points in `UserStats` are derived from the ledger, and
+ * activities get their points and `PointsBreakdown` from their exercise
+ * entry. Entries are never changed; once the ledger grows past its limit
+ * the oldest entries are folded into a single carry-over entry.
+ */
+export class PointsLedger {
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock,
+    private random: RandomSource = mathRandom
+  ) {}
+
+  /**
+   * Append an entry
+   */
+  async record(entry: Omit<LedgerEntry, 'id' | 'at'>): Promise<LedgerEntry> {
+    const full: LedgerEntry = {
+      ...entry,
+      id: `ledger_${this.clock.now().getTime()}_${this.random.next().toString(36).substr(2, 9)}`,
+      at: this.clock.now()
+    };
+
+    let entries = [...this.getEntries(), full];
+    if (entries.length > MAX_ENTRIES) {
+      entries = this.compact(entries);
+    }
+
+    await this.storage.set('pointsLedger', entries);
+    return full;
+  }
+
+  /**
+   * Get all entries, oldest first
+   */
+  getEntries(): LedgerEntry[] {
+    return this.storage.get<LedgerEntry[]>('pointsLedger', []).map(e => ({ ...e, at: new Date(e.at) }));
+  }
+
+  /**
+   * Total XP, level and points
+   */
+  getBalance(): LedgerBalance {
+    const entries = this.getEntries();
+    const xp = entries.reduce((sum, e) => sum + e.xp, 0);
+
+    return {
+      xp,
+      level: getLevelForXP(xp),
+      totalPoints: entries.reduce((sum, e) => sum + Math.max(0, e.points), 0),
+      availablePoints: entries.reduce((sum, e) => sum + e.points, 0)
+    };
+  }
+
+  /**
+   * Exercise entries by activity ID
+   */
+  getActivityEntries(): Map<string, LedgerEntry> {
+    return new Map(
+      this.getEntries()
+        .filter(e => e.type === 'exercise' && e.activityId)
+        .map(e => [e.activityId!, e])
+    );
+  }
+
+  /**
+   * Carry over the XP and points stored before the ledger existed (runs once)
+   */
+  async migrate(): Promise<void> {
+    if (this.storage.get<boolean>('pointsLedgerMigrated', false)) {
+      return;
+    }
+
+    const stored = this.storage.get<UserStats>('userStats');
+    if (stored && this.getEntries().length === 0) {
+      // The health tracker and the gamification service used to save their own
+      // copies of these stats under the same key; whichever saved last won, and
+      // only the gamification copy ever levelled up
+      const levelXP = LEVELS.find(l => l.level === stored.level)?.xpRequired || 0;
+      const xp = Math.max(stored.xp || 0, levelXP);
+      const earned = stored.totalPoints || 0;
+      const spent = Math.max(0, earned - (stored.availablePoints ?? earned));
+
+      if (xp > 0 || earned > 0) {
+        await this.record({ type: 'carry-over', xp, points: earned, description: 'Balance from before the points ledger' });
+      }
+      if (spent > 0) {
+        await this.record({ type: 'carry-over', xp: 0, points: -spent, description: 'Points spent before the points ledger' });
+      }
+    }
+
+    await this.storage.set('pointsLedgerMigrated', true);
+  }
+
+  /**
+   * Fold the oldest entries into one carry-over entry, keeping the totals
+   */
+  private compact(entries: LedgerEntry[]): LedgerEntry[] {
+    const old = entries.slice(0, entries.length - COMPACT_TO);
+    const earned = old.reduce((sum, e) => sum + Math.max(0, e.points), 0);
+    const spent = old.reduce((sum, e) => sum + Math.min(0, e.points), 0);
+
+    const carried: LedgerEntry[] = [{
+      id: `${old[0].id}_carry`,
+      type: 'carry-over',
+      at: old[old.length - 1].at,
+      xp: old.reduce((sum, e) => sum + e.xp, 0),
+      points: earned,
+      description: `${old.length} earlier entries`
+    }];
+    if (spent < 0) {
+      carried.push({ ...carried[0], id: `${old[0].id}_spent`, xp: 0, points: spent, description: `Points spent in ${old.length} earlier entries` });
+    }
+
+    return [...carried, ...entries.slice(entries.length - COMPACT_TO)];
+  }
+}
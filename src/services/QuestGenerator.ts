@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import { ChallengePeriod, DailyQuest, Exercise, PersonalChallenge, QuestDifficulty, QuestTask, QuestTemplate } from '../types';
+import { CHALLENGE_TEMPLATES, QUEST_TEMPLATES } from '../constants/quests';
+import { getAllExercises } from '../constants/exercises';
+import { createSeededRandom, RandomSource } from '../utils/clock';
+
+const TASKS_PER_QUEST = 4;
+const CHALLENGES_PER_PERIOD = 2;
+const DIFFICULTIES: QuestDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Builds daily quests and weekly and monthly challenges from templates.
+ *
+ * Tasks are drawn at random, one per kind, from a random source seeded by
+ * the date (or the first day of the period), so a day always gets the same
+ * quest for the same level. Targets and XP grow with the difficulty, which
+ * follows the user's level: easy up to level 3, medium up to level 6 and
+ * hard from level 7. Variety targets never ask for more distinct exercises
+ * than there are, custom exercises included.
+ */
+export class QuestGenerator {
+  constructor(
+    private templates: QuestTemplate[] = QUEST_TEMPLATES,
+    private challengeTemplates: Record<ChallengePeriod, QuestTemplate[]> = CHALLENGE_TEMPLATES,
+    private getExercises: () => Exercise[] = getAllExercises
+  ) {}
+
+  /**
+   * Generate the quest for a date
+   */
+  generate(date: Date, level: number): DailyQuest {
+    const day = format(date, 'yyyy-MM-dd');
+    const difficulty = this.getDifficulty(level);
+    const tasks = this.pick(this.templates, day, TASKS_PER_QUEST)
+      .map(template => this.createTask(template, difficulty));
+
+    return {
+      id: `quest_${day}`,
+      date,
+      difficulty,
+      tasks,
+      totalXP: tasks.reduce((sum, t) => sum + t.xp, 0),
+      completed: false
+    };
+  }
+
+  /**
+   * Generate the challenges for the period from `startDate` to `endDate` (exclusive)
+   */
+  generateChallenges(period: ChallengePeriod, startDate: Date, endDate: Date, level: number): PersonalChallenge[] {
+    const day = format(startDate, 'yyyy-MM-dd');
+    const difficulty = this.getDifficulty(level);
+
+    return this.pick(this.challengeTemplates[period], `${period}_${day}`, CHALLENGES_PER_PERIOD).map(template => {
+      const task = this.createTask(template, difficulty);
+      return { ...task, id: `challenge_${period}_${day}_${template.id}`, period, startDate, endDate };
+    });
+  }
+
+  getDifficulty(level: number): QuestDifficulty {
+    if (level >= 7) {
+      return 'hard';
+    }
+    return level >= 4 ? 'medium' : 'easy';
+  }
+
+  private createTask(template: QuestTemplate, difficulty: QuestDifficulty): QuestTask {
+    const tier = DIFFICULTIES.indexOf(difficulty);
+    const target = template.kind === 'variety'
+      ? Math.max(1, Math.min(template.targets[tier], this.countVarietyExercises(template)))
+      : template.targets[tier];
+
+    return {
+      id: `task_${template.id}`,
+      kind: template.kind,
+      params: template.params,
+      description: template.description
+        .replace('{target}', String(target))
+        .replace('{s}', target === 1 ? '' : 's'),
+      target,
+      current: 0,
+      xp: template.xp[tier],
+      completed: false,
+      exerciseIds: template.kind === 'variety' ? [] : undefined
+    };
+  }
+
+  /**
+   * Number of distinct exercises a variety template can be completed with
+   */
+  private countVarietyExercises(template: QuestTemplate): number {
+    const { category, exerciseType } = template.params || {};
+    return this.getExercises().filter(e =>
+      (!category || e.category === category) && (!exerciseType || e.type === exerciseType)
+    ).length;
+  }
+
+  /**
+   * Draw up to `count` templates with different kinds
+   */
+  private pick(templates: QuestTemplate[], seed: string, count: number): QuestTemplate[] {
+    const random = createSeededRandom(this.hash(seed));
+    const kinds = new Set<string>();
+    const picked: QuestTemplate[] = [];
+
+    for (const template of this.shuffle(templates, random)) {
+      if (picked.length >= count) {
+        break;
+      }
+      if (!kinds.has(template.kind)) {
+        kinds.add(template.kind);
+        picked.push(template);
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * Fisher-Yates shuffle of a copy
+   */
+  private shuffle<T>(items: T[], random: RandomSource): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * FNV-1a hash of a string
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
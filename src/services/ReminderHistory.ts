@@ -0,0 +1,97 @@
+import { addDays } from 'date-fns';
+import { QueuedReminder, ReminderHistoryEntry, ReminderOutcome } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Clock, systemClock } from '../utils/clock';
+
+const RETENTION_DAYS = 60;
+
+export interface ReminderCompliance {
+  shown: number;
+  accepted: number;
+  snoozed: number;
+  ignored: number;
+  rate: number; // accepted share of answered reminders, 0-100
+}
+
+/**
+ * Persisted log of every reminder shown and how the user responded
+ */
+export class ReminderHistory {
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Record that a reminder (or an escalation of it) was shown
+   */
+  async recordShown(reminder: QueuedReminder): Promise<void> {
+    const cutoff = addDays(this.clock.now(), -RETENTION_DAYS).getTime();
+    const entries = this.getEntries().filter(e => e.shownAt.getTime() >= cutoff);
+
+    entries.push({
+      id: this.getEntryId(reminder),
+      source: reminder.source,
+      severity: reminder.severity,
+      escalation: reminder.escalation,
+      shownAt: this.clock.now(),
+      outcome: 'shown'
+    });
+
+    await this.storage.set('reminderHistory', entries);
+  }
+
+  /**
+   * Record how the user responded to a shown reminder
+   */
+  async resolve(reminder: Pick<QueuedReminder, 'id' | 'escalation'>, outcome: Exclude<ReminderOutcome, 'shown'>): Promise<void> {
+    const id = this.getEntryId(reminder);
+    const entries = this.getEntries();
+    const entry = entries.find(e => e.id === id);
+
+    if (!entry || entry.outcome !== 'shown') {
+      return;
+    }
+
+    entry.outcome = outcome;
+    entry.resolvedAt = this.clock.now();
+    await this.storage.set('reminderHistory', entries);
+  }
+
+  /**
+   * Get all history entries, oldest first
+   */
+  getEntries(): ReminderHistoryEntry[] {
+    const stored = this.storage.get<ReminderHistoryEntry[]>('reminderHistory') || [];
+    return stored.map(e => ({
+      ...e,
+      shownAt: new Date(e.shownAt),
+      resolvedAt: e.resolvedAt ? new Date(e.resolvedAt) : undefined
+    }));
+  }
+
+  /**
+   * Share of answered reminders that were accepted over the last N days
+   */
+  getCompliance(days: number = 7): ReminderCompliance {
+    const cutoff = addDays(this.clock.now(), -days).getTime();
+    const recent = this.getEntries().filter(e => e.shownAt.getTime() >= cutoff);
+
+    const accepted = recent.filter(e => e.outcome === 'accepted').length;
+    const snoozed = recent.filter(e => e.outcome === 'snoozed').length;
+    const ignored = recent.filter(e => e.outcome === 'ignored').length;
+    const answered = accepted + snoozed + ignored;
+
+    return {
+      shown: recent.length,
+      accepted,
+      snoozed,
+      ignored,
+      rate: answered > 0 ? Math.round(accepted / answered * 100) : 100
+    };
+  }
+
+  private getEntryId(reminder: Pick<QueuedReminder, 'id' | 'escalation'>): string {
+    return `${reminder.id}_${reminder.escalation}`;
+  }
+}
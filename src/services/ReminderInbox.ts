@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { format, isSameDay } from 'date-fns';
+import { QueuedReminder, ReminderInboxEntry } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Clock, systemClock } from '../utils/clock';
+
+const MAX_ENTRIES = 100;
+
+/**
+ * Log of reminders delivered silently (background style) for later review
+ */
+export class ReminderInbox {
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Log a reminder
+   */
+  async add(reminder: QueuedReminder): Promise<void> {
+    const entries = this.getEntries();
+    entries.push({
+      id: reminder.id,
+      severity: reminder.severity,
+      message: reminder.message,
+      recommendedExerciseId: reminder.recommendedExerciseId,
+      createdAt: reminder.createdAt,
+      reviewed: false
+    });
+
+    await this.storage.set('reminderInbox', entries.slice(-MAX_ENTRIES));
+  }
+
+  /**
+   * Get logged reminders, oldest first
+   */
+  getEntries(): ReminderInboxEntry[] {
+    const stored = this.storage.get<ReminderInboxEntry[]>('reminderInbox') || [];
+    return stored.map(e => ({ ...e, createdAt: new Date(e.createdAt) }));
+  }
+
+  /**
+   * Number of reminders not yet reviewed
+   */
+  getUnreviewedCount(): number {
+    return this.getEntries().filter(e => !e.reviewed).length;
+  }
+
+  /**
+   * Show the inbox; resolves with the entry the user picked to act on
+   */
+  async show(): Promise<ReminderInboxEntry | undefined> {
+    const entries = this.getEntries().reverse();
+
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('Your reminder inbox is empty.');
+      return undefined;
+    }
+
+    const now = this.clock.now();
+    const items: Array<vscode.QuickPickItem & { entry?: ReminderInboxEntry; clear?: boolean }> = entries.map(entry => ({
+      label: `${entry.reviewed ? '$(circle-outline)' : '$(circle-filled)'} ${entry.message}`,
+      description: isSameDay(entry.createdAt, now)
+        ? format(entry.createdAt, 'HH:mm')
+        : format(entry.createdAt, 'EEE MMM d, HH:mm'),
+      detail: `${entry.severity} reminder`,
+      entry
+    }));
+
+    items.push(
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      { label: '$(clear-all) Clear inbox', clear: true }
+    );
+
+    const missedToday = entries.filter(e => isSameDay(e.createdAt, now)).length;
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'CodeFit Reminder Inbox',
+      placeHolder: `${missedToday} break reminder${missedToday === 1 ? '' : 's'} today. Pick one to take that break now.`
+    });
+
+    await this.markAllReviewed();
+
+    if (selected?.clear) {
+      await this.storage.set('reminderInbox', []);
+      return undefined;
+    }
+
+    return selected?.entry;
+  }
+
+  private async markAllReviewed(): Promise<void> {
+    const entries = this.getEntries().map(e => ({ ...e, reviewed: true }));
+    await this.storage.set('reminderInbox', entries);
+  }
+}
@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import {
+  ReminderContext,
+  ReminderContextField,
+  ReminderCondition,
+  ReminderDecision,
+  ReminderPolicy,
+  ReminderRule
+} from '../types';
+import { BUILT_IN_POLICIES, SMART_POLICY } from '../constants/reminderPolicies';
+import { RandomSource, mathRandom } from '../utils/clock';
+
+const CONTEXT_FIELDS: ReminderContextField[] = [
+  'consecutiveWorkMinutes',
+  'todayBreakCount',
+  'codeInputFrequency',
+  'minutesSinceCommit',
+  'minutesSinceActivity',
+  'isDebugging',
+  'isZenMode',
+  'isLiveShare',
+  'isPairing',
+  'isTerminalHeavy',
+  'isTaskRunning',
+  'flowScore',
+  'isInFlow'
+];
+
+const OPERATORS: ReminderCondition['op'][] = ['>', '>=', '<', '<=', '==', '!='];
+
+/**
+ * Evaluates declarative reminder policies against the reminder context.
+ *
+ * Rules are checked in order and the first rule whose conditions all match
+ * decides the outcome. A matching rule that is cooling down is skipped; a
+ * matching rule that loses its probability roll ends evaluation without a
+ * reminder.
+ */
+export class ReminderPolicyEngine {
+  private workspacePolicies: ReminderPolicy[] = [];
+  private lastFired: Map<string, number> = new Map();
+
+  constructor(
+    private outputChannel?: vscode.OutputChannel,
+    private random: RandomSource = mathRandom
+  ) {}
+
+  /**
+   * Load team policies from the workspace policy file
+   */
+  async loadWorkspacePolicies(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const relativePath = config.get<string>('reminder.policyFile', '.codefit/reminder-policy.json');
+    const policies: ReminderPolicy[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const uri = vscode.Uri.joinPath(folder.uri, relativePath);
+
+      let raw: any;
+      try {
+        const content = await vscode.workspace.fs.readFile(uri);
+        raw = JSON.parse(Buffer.from(content).toString('utf8'));
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          this.log(`Reminder policy file ${uri.fsPath} is not valid JSON: ${error.message}`);
+        }
+        continue;
+      }
+
+      const candidates = Array.isArray(raw?.policies) ? raw.policies : [raw];
+      for (const candidate of candidates) {
+        const errors = validatePolicy(candidate);
+        if (errors.length > 0) {
+          this.log(`Ignoring invalid reminder policy in ${uri.fsPath}:\n  ${errors.join('\n  ')}`);
+          vscode.window.showWarningMessage(
+            `CodeFit: invalid reminder policy in ${relativePath} (see CodeFit output for details)`
+          );
+          continue;
+        }
+        policies.push(candidate as ReminderPolicy);
+      }
+    }
+
+    this.workspacePolicies = policies;
+    if (policies.length > 0) {
+      this.log(`Loaded ${policies.length} workspace reminder ${policies.length === 1 ? 'policy' : 'policies'}: ${policies.map(p => p.id).join(', ')}`);
+    }
+  }
+
+  /**
+   * Reload workspace policies when the policy file changes
+   */
+  watchWorkspacePolicies(): vscode.Disposable {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const relativePath = config.get<string>('reminder.policyFile', '.codefit/reminder-policy.json');
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${relativePath}`);
+
+    const reload = () => this.loadWorkspacePolicies();
+    watcher.onDidCreate(reload);
+    watcher.onDidChange(reload);
+    watcher.onDidDelete(reload);
+
+    return watcher;
+  }
+
+  /**
+   * Get all available policies (built-in and workspace)
+   */
+  getPolicies(): ReminderPolicy[] {
+    return [...BUILT_IN_POLICIES, ...this.workspacePolicies];
+  }
+
+  /**
+   * Get the active policy from settings
+   */
+  getActivePolicy(): ReminderPolicy {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const policyId = config.get<string>('reminder.policy', '');
+
+    if (policyId) {
+      const policy = this.getPolicies().find(p => p.id === policyId);
+      if (policy) {
+        return policy;
+      }
+      this.log(`Reminder policy "${policyId}" not found, falling back to reminder frequency`);
+    }
+
+    // No explicit policy: follow the reminder frequency setting
+    const frequency = config.get<string>('reminder.frequency', 'smart');
+    if (frequency === 'smart') {
+      return SMART_POLICY;
+    }
+
+    const minutes = parseInt(frequency.replace('min', ''));
+    return BUILT_IN_POLICIES.find(p => p.id === `fixed_${minutes}`) || SMART_POLICY;
+  }
+
+  /**
+   * Let the user pick the active policy
+   */
+  async selectPolicy(): Promise<ReminderPolicy | undefined> {
+    const active = this.getActivePolicy();
+    const builtInIds = new Set(BUILT_IN_POLICIES.map(p => p.id));
+
+    const items = this.getPolicies().map(policy => ({
+      label: `${policy.id === active.id ? '$(check) ' : ''}${policy.name}`,
+      description: builtInIds.has(policy.id) ? 'Built-in' : 'Workspace',
+      detail: policy.description,
+      policy
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select reminder policy'
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+
+    const target = vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+
+    await vscode.workspace.getConfiguration('codefit').update('reminder.policy', selected.policy.id, target);
+    this.lastFired.clear();
+    this.log(`Reminder policy switched to "${selected.policy.id}"`);
+
+    return selected.policy;
+  }
+
+  /**
+   * Evaluate the active policy against the reminder context
+   */
+  evaluate(context: ReminderContext, now: Date = new Date()): ReminderDecision {
+    const policy = this.getActivePolicy();
+    const decision = this.evaluatePolicy(policy, context, now);
+
+    const config = vscode.workspace.getConfiguration('codefit');
+    if (decision.fire || config.get<boolean>('reminder.trace', false)) {
+      this.logDecision(decision, now);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Evaluate a policy against the reminder context
+   */
+  private evaluatePolicy(policy: ReminderPolicy, context: ReminderContext, now: Date): ReminderDecision {
+    const trace: string[] = [];
+
+    for (const rule of policy.rules) {
+      const failed = rule.when.find(condition => !this.matches(condition, context, now));
+      if (failed) {
+        trace.push(`${rule.id}: no match (${this.describeCondition(failed, context, now)})`);
+        continue;
+      }
+
+      const matched = rule.when.map(c => this.describeCondition(c, context, now)).join(', ');
+
+      if (rule.action === 'suppress') {
+        trace.push(`${rule.id}: matched [${matched}] → suppress`);
+        return { fire: false, suppressed: true, policyId: policy.id, ruleId: rule.id, trace };
+      }
+
+      const key = `${policy.id}:${rule.id}`;
+      const lastFired = this.lastFired.get(key);
+      if (rule.cooldownMinutes && lastFired && now.getTime() - lastFired < rule.cooldownMinutes * 60 * 1000) {
+        const remaining = Math.ceil((rule.cooldownMinutes * 60 * 1000 - (now.getTime() - lastFired)) / 60000);
+        trace.push(`${rule.id}: matched [${matched}] but cooling down (${remaining} min left)`);
+        continue;
+      }
+
+      if (rule.probability !== undefined && rule.probability < 1) {
+        const roll = this.random.next();
+        if (roll >= rule.probability) {
+          trace.push(`${rule.id}: matched [${matched}] but probability roll failed (${roll.toFixed(2)} ≥ ${rule.probability})`);
+          return { fire: false, policyId: policy.id, ruleId: rule.id, trace };
+        }
+        trace.push(`${rule.id}: probability roll passed (${roll.toFixed(2)} < ${rule.probability})`);
+      }
+
+      this.lastFired.set(key, now.getTime());
+      trace.push(`${rule.id}: matched [${matched}] → remind (${rule.severity || 'standard'})`);
+      return {
+        fire: true,
+        severity: rule.severity || 'standard',
+        policyId: policy.id,
+        ruleId: rule.id,
+        trace
+      };
+    }
+
+    trace.push('no rule fired');
+    return { fire: false, policyId: policy.id, trace };
+  }
+
+  /**
+   * Check a single condition against the context
+   */
+  private matches(condition: ReminderCondition, context: ReminderContext, now: Date): boolean {
+    const actual = this.resolveField(condition.field, context, now);
+    if (actual === undefined) {
+      return false;
+    }
+
+    switch (condition.op) {
+      case '>': return actual > condition.value;
+      case '>=': return actual >= condition.value;
+      case '<': return actual < condition.value;
+      case '<=': return actual <= condition.value;
+      case '==': return actual === condition.value;
+      case '!=': return actual !== condition.value;
+      default: return false;
+    }
+  }
+
+  /**
+   * Resolve a context field to a comparable value
+   */
+  private resolveField(field: ReminderContextField, context: ReminderContext, now: Date): number | boolean | undefined {
+    switch (field) {
+      case 'minutesSinceCommit':
+        return context.lastCommitTime
+          ? (now.getTime() - context.lastCommitTime.getTime()) / 60000
+          : undefined;
+      case 'minutesSinceActivity':
+        return (now.getTime() - context.lastActivityTime.getTime()) / 60000;
+      default:
+        return context[field];
+    }
+  }
+
+  /**
+   * Describe a condition with its actual value for the trace
+   */
+  private describeCondition(condition: ReminderCondition, context: ReminderContext, now: Date): string {
+    const actual = this.resolveField(condition.field, context, now);
+    const shown = typeof actual === 'number' ? Math.round(actual * 10) / 10 : actual;
+    return `${condition.field}=${shown ?? 'n/a'} ${condition.op} ${condition.value}`;
+  }
+
+  /**
+   * Write a decision trace to the output channel
+   */
+  private logDecision(decision: ReminderDecision, now: Date): void {
+    const time = now.toLocaleTimeString();
+    const header = decision.fire
+      ? `[${time}] Reminder fired (${decision.severity}) by rule "${decision.ruleId}" of policy "${decision.policyId}"`
+      : `[${time}] No reminder from policy "${decision.policyId}"`;
+
+    this.log([header, ...decision.trace.map(line => `  ${line}`)].join('\n'));
+  }
+
+  private log(message: string): void {
+    this.outputChannel?.appendLine(message);
+  }
+}
+
+/**
+ * Validate a policy definition, returning human-readable errors
+ */
+export function validatePolicy(raw: any): string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return ['policy must be an object'];
+  }
+
+  if (typeof raw.id !== 'string' || raw.id.length === 0) {
+    errors.push('"id" must be a non-empty string');
+  }
+  if (typeof raw.name !== 'string' || raw.name.length === 0) {
+    errors.push('"name" must be a non-empty string');
+  }
+  if (!Array.isArray(raw.rules)) {
+    errors.push('"rules" must be an array');
+    return errors;
+  }
+
+  raw.rules.forEach((rule: any, i: number) => {
+    const where = `rules[${i}]${typeof rule?.id === 'string' ? ` (${rule.id})` : ''}`;
+
+    if (typeof rule?.id !== 'string') {
+      errors.push(`${where}: "id" must be a string`);
+    }
+    if (rule?.action !== 'remind' && rule?.action !== 'suppress') {
+      errors.push(`${where}: "action" must be "remind" or "suppress"`);
+    }
+    if (rule?.severity !== undefined && !['light', 'standard', 'strong'].includes(rule.severity)) {
+      errors.push(`${where}: "severity" must be "light", "standard" or "strong"`);
+    }
+    if (rule?.probability !== undefined && (typeof rule.probability !== 'number' || rule.probability < 0 || rule.probability > 1)) {
+      errors.push(`${where}: "probability" must be a number between 0 and 1`);
+    }
+    if (rule?.cooldownMinutes !== undefined && (typeof rule.cooldownMinutes !== 'number' || rule.cooldownMinutes < 0)) {
+      errors.push(`${where}: "cooldownMinutes" must be a non-negative number`);
+    }
+    if (!Array.isArray(rule?.when)) {
+      errors.push(`${where}: "when" must be an array of conditions`);
+      return;
+    }
+
+    rule.when.forEach((condition: any, j: number) => {
+      if (!CONTEXT_FIELDS.includes(condition?.field)) {
+        errors.push(`${where}.when[${j}]: unknown field "${condition?.field}" (expected one of ${CONTEXT_FIELDS.join(', ')})`);
+      }
+      if (!OPERATORS.includes(condition?.op)) {
+        errors.push(`${where}.when[${j}]: unknown operator "${condition?.op}"`);
+      }
+      if (typeof condition?.value !== 'number' && typeof condition?.value !== 'boolean') {
+        errors.push(`${where}.when[${j}]: "value" must be a number or boolean`);
+      }
+    });
+  });
+
+  return errors;
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { QueuedReminder, ReminderSeverity } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+
+const SEVERITY_ORDER: ReminderSeverity[] = ['light', 'standard', 'strong'];
+
+/**
+ * Holds the single reminder currently waiting for the user.
+ *
+ * Every reminder style goes through the queue, so a new reminder is only
+ * delivered once the previous one has been answered, dismissed or logged.
+ */
+export class ReminderQueue {
+  private active?: QueuedReminder;
+  private onDidChangeEmitter = new vscode.EventEmitter<QueuedReminder | undefined>();
+
+  /** Fires when the active reminder is added, escalated or cleared */
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Make a reminder active; returns false if another reminder is still pending
+   */
+  offer(reminder: QueuedReminder): boolean {
+    if (this.active) {
+      return false;
+    }
+
+    this.active = reminder;
+    this.onDidChangeEmitter.fire(this.active);
+    return true;
+  }
+
+  /**
+   * Get the pending reminder, if any
+   */
+  getActive(): QueuedReminder | undefined {
+    return this.active;
+  }
+
+  /**
+   * Raise the pending reminder one severity level; returns false when already strong
+   */
+  escalate(): boolean {
+    if (!this.active) {
+      return false;
+    }
+
+    const index = SEVERITY_ORDER.indexOf(this.active.severity);
+    if (index >= SEVERITY_ORDER.length - 1) {
+      return false;
+    }
+
+    this.active = {
+      ...this.active,
+      severity: SEVERITY_ORDER[index + 1],
+      escalatedAt: this.clock.now(),
+      escalation: this.active.escalation + 1
+    };
+    this.onDidChangeEmitter.fire(this.active);
+    return true;
+  }
+
+  /**
+   * Remove the pending reminder
+   */
+  clear(id?: string): void {
+    if (!this.active || (id && this.active.id !== id)) {
+      return;
+    }
+
+    this.active = undefined;
+    this.onDidChangeEmitter.fire(undefined);
+  }
+
+  dispose(): void {
+    this.onDidChangeEmitter.dispose();
+  }
+}
@@ -1,25 +1,114 @@
 import * as vscode from 'vscode';
-import { ReminderContext } from '../types';
+import { addDays, format, startOfDay } from 'date-fns';
+import { Exercise, QueuedReminder, ReminderContext, ReminderDecision, ReminderSeverity, SnoozeKind, SnoozeState } from '../types';
 import { ExerciseService } from './ExerciseService';
 import { HealthTracker } from './HealthTracker';
 import { GamificationService } from './GamificationService';
+import { ReminderPolicyEngine } from './ReminderPolicyEngine';
+import { ReminderQueue } from './ReminderQueue';
+import { ReminderInbox } from './ReminderInbox';
+import { ReminderHistory } from './ReminderHistory';
+import { WorkSchedule } from './WorkSchedule';
+import { ContextDetector } from './ContextDetector';
+import { WorkModeBreakRequest, WorkModeService } from './WorkModeService';
+import { FlowDetector } from './FlowDetector';
+import { WindowCoordinator, WindowMessage } from './WindowCoordinator';
+import { AwayPeriod, IdleDetector } from './IdleDetector';
+import { GitIntegration } from './GitIntegration';
+import { StorageManager } from '../utils/storage';
+import { Clock, RandomSource, TimerHandle, systemClock, mathRandom } from '../utils/clock';
+
+const SEVERITY_LADDER: ReminderSeverity[] = ['light', 'standard', 'strong'];
+const INPUT_WINDOW_MINUTES = 5;
+const SNOOZE_PRESETS = [15, 30, 60, 120];
+
+interface StoredReminderState {
+  paused?: boolean;
+  snoozedUntil?: number;
+  snoozeKind?: SnoozeKind;
+  snoozedAt?: number;
+  lastCommitTime?: number;
+  consecutiveWorkMinutes?: number;
+  todayBreakCount?: number;
+  ignoredCount?: number;
+  nextAttemptAt?: number;
+}
+
+/**
+ * Describe why reminders are snoozed, e.g. "until your next commit"
+ */
+export function describeSnooze(snooze: SnoozeState): string {
+  const until = snooze.until ? format(snooze.until, 'HH:mm') : '';
+  switch (snooze.kind) {
+    case 'duration':
+      return `for ${formatMinutes(Math.round(((snooze.until?.getTime() || 0) - snooze.startedAt.getTime()) / 60000))} (until ${until})`;
+    case 'time':
+      return `until ${until}`;
+    case 'tomorrow':
+      return 'until tomorrow';
+    case 'meeting':
+      return `until your meeting ends (${until})`;
+    case 'commit':
+      return 'until your next commit';
+    case 'debug':
+      return 'until the debug session ends';
+  }
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} minutes`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}${rest > 0 ? ` ${rest} minutes` : ''}`;
+}
 
 export class HealthReminderService {
-  private intervalId?: NodeJS.Timeout;
+  private intervalId?: TimerHandle;
   private paused: boolean = false;
-  private snoozedUntil?: Date;
-  private lastActivityTime: Date = new Date();
+  private snoozeState?: SnoozeState;
+  private lastActivityTime: Date;
   private lastCommitTime?: Date;
   private consecutiveWorkMinutes: number = 0;
   private codeInputFrequency: number = 0;
   private todayBreakCount: number = 0;
+  private recentInputs: Array<{ time: number; chars: number }> = [];
+  private queue: ReminderQueue;
+  private inbox: ReminderInbox;
+  private history: ReminderHistory;
+  private schedule: WorkSchedule;
+  private contextDetector?: ContextDetector;
+  private deferredReminder?: ReminderDecision;
+  private workMode?: WorkModeService;
+  private flowDetector?: FlowDetector;
+  private flowDeferral?: { reminder: ReminderDecision; since: Date };
+  private coordinator?: WindowCoordinator;
+  private idleDetector?: IdleDetector;
+  private git?: GitIntegration;
+  private ignoredCount: number = 0;
+  private nextAttemptAt?: Date;
+  private openToastId?: string;
+  private onDidChangeSnoozeEmitter = new vscode.EventEmitter<SnoozeState | undefined>();
+
+  /** Fires when reminders are snoozed or the snooze ends early */
+  readonly onDidChangeSnooze = this.onDidChangeSnoozeEmitter.event;
 
   constructor(
     private context: vscode.ExtensionContext,
     private exerciseService: ExerciseService,
     private healthTracker: HealthTracker,
-    private gamificationService: GamificationService
+    private gamificationService: GamificationService,
+    private policyEngine: ReminderPolicyEngine,
+    private clock: Clock = systemClock,
+    private random: RandomSource = mathRandom
   ) {
+    this.queue = new ReminderQueue(this.clock);
+    this.inbox = new ReminderInbox(new StorageManager(this.context), this.clock);
+    this.history = new ReminderHistory(new StorageManager(this.context), this.clock);
+    this.schedule = new WorkSchedule(new StorageManager(this.context), this.clock);
+    this.lastActivityTime = this.clock.now();
+    this.context.subscriptions.push(this.onDidChangeSnoozeEmitter);
     this.loadState();
     this.setupActivityTracking();
   }
@@ -29,7 +118,7 @@ export class HealthReminderService {
    */
   start(): void {
     // Check every minute
-    this.intervalId = setInterval(() => {
+    this.intervalId = this.clock.setInterval(() => {
       this.checkAndNotify();
     }, 60000);
 
@@ -41,17 +130,84 @@ export class HealthReminderService {
    */
   stop(): void {
     if (this.intervalId) {
-      clearInterval(this.intervalId);
+      this.intervalId.cancel();
       this.intervalId = undefined;
     }
   }
 
+  /**
+   * Set context detector reference (Zen mode, Live Share, tasks, ...)
+   */
+  setContextDetector(detector: ContextDetector): void {
+    this.contextDetector = detector;
+    this.context.subscriptions.push(
+      detector.onDidChange(() => this.showDeferredReminder())
+    );
+  }
+
+  /**
+   * Set work mode reference; Pomodoro and Deep Work take over when breaks are due
+   */
+  setWorkModeService(workMode: WorkModeService): void {
+    this.workMode = workMode;
+    this.context.subscriptions.push(
+      workMode.onDidRequestBreak(request => this.showWorkModeBreak(request)),
+      workMode.onDidEndBreak(message => this.showWorkModeNotice(message))
+    );
+  }
+
+  /**
+   * Set flow detector reference; reminders during flow wait for a natural breakpoint
+   */
+  setFlowDetector(detector: FlowDetector): void {
+    this.flowDetector = detector;
+    this.context.subscriptions.push(
+      detector.onDidReachBreakpoint(() => this.releaseFlowDeferral())
+    );
+  }
+
+  /**
+   * Set window coordinator reference; only the leading window schedules reminders
+   */
+  setWindowCoordinator(coordinator: WindowCoordinator): void {
+    this.coordinator = coordinator;
+    this.context.subscriptions.push(
+      coordinator.onDidChangeLeadership(leader => {
+        // Carry on with the counters of the window that led before
+        const state = leader ? coordinator.readState<StoredReminderState>() : undefined;
+        if (state) {
+          this.applyState(state);
+        }
+      }),
+      coordinator.onDidReceiveMessage(message => this.applyWindowMessage(message))
+    );
+  }
+
+  /**
+   * Set idle detector reference; time away from the keyboard counts as a break
+   */
+  setIdleDetector(detector: IdleDetector): void {
+    this.idleDetector = detector;
+    this.context.subscriptions.push(
+      detector.onDidReturn(away => this.handleReturn(away)),
+      detector.onDidRecordInput(time => this.coordinator?.broadcast({ type: 'activity', at: time.getTime() }))
+    );
+  }
+
+  /**
+   * Set Git integration reference; snoozing until a commit needs it
+   */
+  setGitIntegration(git: GitIntegration): void {
+    this.git = git;
+  }
+
   /**
    * Pause reminders
    */
   pause(): void {
     this.paused = true;
     this.saveState();
+    this.coordinator?.broadcast({ type: 'pause' });
   }
 
   /**
@@ -59,23 +215,198 @@ export class HealthReminderService {
    */
   resume(): void {
     this.paused = false;
-    this.snoozedUntil = undefined;
+    this.snoozeState = undefined;
     this.saveState();
+    this.onDidChangeSnoozeEmitter.fire(undefined);
+    this.coordinator?.broadcast({ type: 'resume' });
+  }
+
+  /**
+   * Whether any reminder (including hydration, eye and posture tracks) should
+   * stay quiet right now
+   */
+  isQuietTime(): boolean {
+    return (this.coordinator !== undefined && !this.coordinator.isLeader()) ||
+      this.isPaused() ||
+      !this.schedule.isWorkingTime() ||
+      this.isDoNotDisturbTime() ||
+      this.idleDetector?.isAway() === true ||
+      this.contextDetector?.getBlockingContexts() !== undefined ||
+      this.workMode?.isHoldingReminders() === true ||
+      this.queue.getActive() !== undefined;
   }
 
   /**
    * Check if reminders are paused
    */
   isPaused(): boolean {
-    return this.paused || (this.snoozedUntil !== undefined && new Date() < this.snoozedUntil);
+    return this.paused || this.getSnooze() !== undefined;
   }
 
   /**
    * Snooze reminders for specified minutes
    */
   snooze(minutes: number): void {
-    this.snoozedUntil = new Date(Date.now() + minutes * 60 * 1000);
+    this.snoozeUntil('duration', new Date(this.clock.now().getTime() + minutes * 60 * 1000));
+  }
+
+  /**
+   * Snooze reminders until a time, or until the next commit or the end of the debug session
+   */
+  snoozeUntil(kind: SnoozeKind, until?: Date): void {
+    this.setSnooze({ kind, startedAt: this.clock.now(), until });
+  }
+
+  /**
+   * End the snooze early
+   */
+  cancelSnooze(): void {
+    this.setSnooze(undefined);
+  }
+
+  /**
+   * Get the active snooze, if any
+   */
+  getSnooze(): SnoozeState | undefined {
+    if (this.snoozeState?.until && this.clock.now() >= this.snoozeState.until) {
+      return undefined;
+    }
+    return this.snoozeState;
+  }
+
+  /**
+   * Let the user pick how long to snooze reminders, or cancel the active snooze
+   */
+  async showSnoozeMenu(): Promise<SnoozeState | undefined> {
+    type SnoozeItem = vscode.QuickPickItem & { pick?: SnoozeKind | 'custom' | 'cancel'; minutes?: number };
+
+    const now = this.clock.now();
+    const meetingEnd = this.schedule.getMeetingEnd(now);
+    const active = this.getSnooze();
+
+    const items: SnoozeItem[] = SNOOZE_PRESETS.map(minutes => ({
+      label: `$(clock) ${formatMinutes(minutes)}`,
+      pick: 'duration' as const,
+      minutes
+    }));
+    items.push(
+      { label: '$(edit) Custom duration…', pick: 'custom' },
+      { label: '$(watch) Until a time…', pick: 'time' }
+    );
+    // Without Git integration no commit would ever end the snooze
+    if (this.git?.isEnabled() && this.git.hasRepository()) {
+      items.push({ label: '$(git-commit) Until I commit', pick: 'commit' });
+    }
+    if (vscode.debug.activeDebugSession) {
+      items.push({ label: '$(debug-alt) Until the debug session ends', pick: 'debug' });
+    }
+    if (meetingEnd) {
+      items.push({ label: '$(comment-discussion) Until this meeting ends', description: format(meetingEnd, 'HH:mm'), pick: 'meeting' });
+    }
+    items.push({ label: '$(calendar) Until tomorrow', pick: 'tomorrow' });
+    if (active) {
+      items.push(
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(bell) Cancel snooze', description: `Snoozed ${describeSnooze(active)}`, pick: 'cancel' }
+      );
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'Snooze CodeFit Reminders',
+      placeHolder: 'Snooze reminders for how long?'
+    });
+
+    switch (selected?.pick) {
+      case 'duration':
+        this.snooze(selected.minutes || 30);
+        break;
+      case 'custom': {
+        const minutes = await this.askSnoozeMinutes();
+        if (minutes === undefined) {
+          return undefined;
+        }
+        this.snooze(minutes);
+        break;
+      }
+      case 'time': {
+        const until = await this.askSnoozeTime();
+        if (!until) {
+          return undefined;
+        }
+        this.snoozeUntil('time', until);
+        break;
+      }
+      case 'meeting':
+        this.snoozeUntil('meeting', meetingEnd);
+        break;
+      case 'tomorrow':
+        this.snoozeUntil('tomorrow', startOfDay(addDays(this.clock.now(), 1)));
+        break;
+      case 'commit':
+      case 'debug':
+        this.snoozeUntil(selected.pick);
+        break;
+      case 'cancel':
+        this.cancelSnooze();
+        vscode.window.showInformationMessage('CodeFit reminders resumed');
+        return undefined;
+      default:
+        return undefined;
+    }
+
+    const snooze = this.getSnooze();
+    if (snooze) {
+      vscode.window.showInformationMessage(`CodeFit reminders snoozed ${describeSnooze(snooze)}`);
+    }
+    return snooze;
+  }
+
+  private async askSnoozeMinutes(): Promise<number | undefined> {
+    const value = await vscode.window.showInputBox({
+      title: 'Snooze CodeFit Reminders',
+      prompt: 'Snooze for how many minutes?',
+      placeHolder: '45',
+      validateInput: input => {
+        const minutes = Number(input);
+        return Number.isInteger(minutes) && minutes >= 1 && minutes <= 24 * 60
+          ? undefined
+          : 'Enter a whole number of minutes between 1 and 1440';
+      }
+    });
+    return value ? Number(value) : undefined;
+  }
+
+  /**
+   * Ask for a time of day; a time that has already passed today means tomorrow
+   */
+  private async askSnoozeTime(): Promise<Date | undefined> {
+    const pattern = /^\s*([01]?\d|2[0-3]):([0-5]\d)\s*$/;
+    const value = await vscode.window.showInputBox({
+      title: 'Snooze CodeFit Reminders',
+      prompt: 'Snooze until what time? (HH:MM)',
+      placeHolder: '14:30',
+      validateInput: input => pattern.test(input) ? undefined : 'Enter a time as HH:MM, e.g. 14:30'
+    });
+    const match = value ? pattern.exec(value) : null;
+    if (!match) {
+      return undefined;
+    }
+
+    const now = this.clock.now();
+    const until = new Date(now.getFullYear(), now.getMonth(), now.getDate(), Number(match[1]), Number(match[2]));
+    return until > now ? until : addDays(until, 1);
+  }
+
+  private setSnooze(snooze: SnoozeState | undefined, broadcast: boolean = true): void {
+    this.snoozeState = snooze;
     this.saveState();
+    this.onDidChangeSnoozeEmitter.fire(snooze);
+
+    if (broadcast) {
+      this.coordinator?.broadcast(snooze
+        ? { type: 'snooze', kind: snooze.kind, startedAt: snooze.startedAt.getTime(), until: snooze.until?.getTime() }
+        : { type: 'unsnooze' });
+    }
   }
 
   /**
@@ -84,156 +415,585 @@ export class HealthReminderService {
   async triggerBreakNow(): Promise<void> {
     const exercise = await this.exerciseService.showExercisePicker();
     if (exercise) {
-      this.todayBreakCount++;
-      this.consecutiveWorkMinutes = 0;
-      this.saveState();
+      this.recordBreak();
+    }
+  }
+
+  /**
+   * Reset the sitting clock after a break
+   */
+  protected recordBreak(): void {
+    this.resetAfterBreak();
+    this.coordinator?.broadcast({ type: 'break' });
+  }
+
+  /**
+   * Clear pending reminders and the sitting clock for a break taken in any window
+   */
+  private resetAfterBreak(): void {
+    // Taking a break answers whatever reminder was pending
+    const pending = this.queue.getActive();
+    if (pending) {
+      this.queue.clear();
+      this.history.resolve(pending, 'accepted');
     }
+    this.ignoredCount = 0;
+    this.nextAttemptAt = undefined;
+    this.deferredReminder = undefined;
+    this.flowDeferral = undefined;
+    this.todayBreakCount++;
+    this.consecutiveWorkMinutes = 0;
+    this.saveState();
+  }
+
+  /**
+   * Count time away from the keyboard as a break, asking first if configured
+   */
+  private async handleReturn(away: AwayPeriod): Promise<void> {
+    // A machine that was asleep leaves no doubt
+    const confirm = vscode.workspace.getConfiguration('codefit').get<boolean>('idle.confirmAway', false);
+    if (confirm && !away.suspended) {
+      const response = await vscode.window.showInformationMessage(
+        `👋 Welcome back! You were away for ${away.minutes} minutes. Did you get up and move?`,
+        'Yes, I Moved',
+        'No, I Was Sitting'
+      );
+      if (response === 'No, I Was Sitting') {
+        return;
+      }
+    }
+
+    this.recordBreak();
+    await this.healthTracker.recordImplicitBreak(away.start, away.end);
+  }
+
+  /**
+   * Record typed input to measure code input frequency (characters per minute)
+   */
+  protected recordInput(charCount: number): void {
+    const now = this.clock.now().getTime();
+    this.lastActivityTime = this.clock.now();
+
+    const since = now - INPUT_WINDOW_MINUTES * 60 * 1000;
+    this.recentInputs = this.recentInputs.filter(input => input.time >= since);
+    this.recentInputs.push({ time: now, chars: charCount });
+
+    this.codeInputFrequency = Math.round(
+      this.recentInputs.reduce((sum, input) => sum + input.chars, 0) / INPUT_WINDOW_MINUTES
+    );
+    this.flowDetector?.recordEdit(charCount);
   }
 
   /**
    * Notify about a recent commit (called by GitIntegration)
    */
-  notifyCommit(commitMessage: string): void {
-    this.lastCommitTime = new Date();
+  notifyCommit(commitMessage: string, hash?: string): void {
+    this.lastCommitTime = this.clock.now();
     this.saveState();
+    if (this.snoozeState?.kind === 'commit') {
+      this.cancelSnooze();
+    }
+    this.flowDetector?.recordCommit();
+    this.coordinator?.broadcast({ type: 'commit', at: this.lastCommitTime.getTime() });
+
+    // Every window with the repository open sees the commit; one of them shows
+    // the reminder, and the leading window gets the first claim
+    const claim = () => !this.coordinator || !hash || this.coordinator.claimOnce(`commit-${hash}`);
+    const claimedByLeader = this.coordinator?.isLeader() ? claim() : undefined;
 
     // Show post-commit reminder
-    setTimeout(() => {
-      this.showPostCommitReminder(commitMessage);
+    this.clock.setTimeout(() => {
+      if (!(claimedByLeader ?? claim())) {
+        return;
+      }
+      if (this.schedule.isWorkingTime() && !this.isDoNotDisturbTime() && !this.contextDetector?.getBlockingContexts()) {
+        this.showPostCommitReminder(commitMessage);
+      }
     }, 5000); // Wait 5 seconds after commit
   }
 
+  /**
+   * Notify about a branch switch (called by GitIntegration)
+   */
+  notifyBranchSwitch(): void {
+    this.flowDetector?.recordBranchSwitch();
+  }
+
   /**
    * Main check and notify logic
    */
-  private async checkAndNotify(): Promise<void> {
+  protected async checkAndNotify(): Promise<void> {
+    // Another window owns reminder scheduling
+    if (this.coordinator && !this.coordinator.isLeader()) {
+      return;
+    }
+
     // Don't notify if paused or snoozed
     if (this.isPaused()) {
       return;
     }
 
-    // Check Do Not Disturb hours
+    // Outside working hours reminders are suspended and the sitting clock starts fresh
+    if (!this.schedule.isWorkingTime()) {
+      if (this.consecutiveWorkMinutes > 0) {
+        this.consecutiveWorkMinutes = 0;
+        this.saveState();
+      }
+      return;
+    }
+
+    // Check Do Not Disturb hours and calendar meetings
     if (this.isDoNotDisturbTime()) {
       return;
     }
 
+    // Nobody is at the keyboard: no reminders, and whether the time counts
+    // as sitting is settled when the user comes back
+    if (this.idleDetector?.isAway()) {
+      this.consecutiveWorkMinutes++;
+      this.saveState();
+      return;
+    }
+
     // Update consecutive work minutes
     this.consecutiveWorkMinutes++;
 
+    // Never stack reminders: deal with the pending one first
+    const pending = this.queue.getActive();
+    if (pending) {
+      this.handleIgnoredReminder(pending);
+      this.saveState();
+      return;
+    }
+
+    // In Pomodoro mode the timer decides when breaks are due
+    if (this.workMode?.getState()?.mode === 'pomodoro') {
+      this.saveState();
+      return;
+    }
+
+    // A reminder is waiting for a natural breakpoint; give up waiting at the cap or when flow ends
+    if (this.flowDeferral) {
+      const waited = (this.clock.now().getTime() - this.flowDeferral.since.getTime()) / 60000;
+      if (waited >= this.getMaxFlowDeferralMinutes() || !this.flowDetector?.isInFlow()) {
+        await this.releaseFlowDeferral();
+      }
+      this.saveState();
+      return;
+    }
+
     // Get reminder context
     const context = this.getReminderContext();
 
-    // Check if should show reminder
-    if (this.shouldShowReminder(context)) {
-      await this.showReminder(context);
+    // Let the active reminder policy decide
+    const decision = this.policyEngine.evaluate(context, this.clock.now());
+
+    let reminder: ReminderDecision | undefined;
+    if (this.ignoredCount > 0) {
+      // Ignored reminders are retried after the back-off, one level stronger each time
+      if (decision.suppressed || (this.nextAttemptAt && this.clock.now() < this.nextAttemptAt)) {
+        this.saveState();
+        return;
+      }
+      reminder = { ...decision, fire: true, severity: this.getEscalatedSeverity(decision.severity) };
+    } else if (decision.fire) {
+      reminder = decision;
+    }
+
+    if (!reminder) {
+      this.workMode?.releaseHeldReminder();
+    } else if (this.workMode?.isHoldingReminders()) {
+      // Deep Work batches reminders into one break at the end of the block
+      this.workMode.holdReminder(reminder.severity || 'standard');
+    } else {
+      await this.offerReminder(reminder);
+    }
+
+    this.saveState();
+  }
+
+  /**
+   * Show a reminder unless a context or the user's flow holds it back
+   */
+  private async offerReminder(reminder: ReminderDecision, waitForBreakpoint: boolean = true): Promise<void> {
+    // Contexts like Zen mode or a running task hold the reminder back or drop it
+    const blocking = this.contextDetector?.getBlockingContexts();
+    if (blocking) {
+      if (blocking.behavior === 'defer') {
+        this.deferredReminder = reminder;
+      }
+      return;
+    }
+
+    const flowEnabled = vscode.workspace.getConfiguration('codefit').get<boolean>('flow.enabled', true);
+    if (waitForBreakpoint && flowEnabled && this.flowDetector?.isInFlow()) {
+      this.flowDeferral = { reminder, since: this.clock.now() };
+      return;
+    }
+
+    await this.showReminder(reminder);
+  }
+
+  /**
+   * Show the reminder that was waiting for a natural breakpoint
+   */
+  private async releaseFlowDeferral(): Promise<void> {
+    if (!this.flowDeferral) {
+      return;
+    }
+
+    const { reminder } = this.flowDeferral;
+    this.flowDeferral = undefined;
+
+    if (this.isPaused() || !this.schedule.isWorkingTime() || this.isDoNotDisturbTime() || this.queue.getActive()) {
+      return;
+    }
+
+    await this.offerReminder(reminder, false);
+  }
+
+  /**
+   * Longest a reminder may wait for a natural breakpoint
+   */
+  private getMaxFlowDeferralMinutes(): number {
+    return vscode.workspace.getConfiguration('codefit').get<number>('flow.maxDeferralMinutes', 20);
+  }
+
+  /**
+   * Show a reminder held back by a deferring context once no context blocks it
+   */
+  private async showDeferredReminder(): Promise<void> {
+    if (!this.deferredReminder || this.contextDetector?.getBlockingContexts()) {
+      return;
     }
 
+    const reminder = this.deferredReminder;
+    this.deferredReminder = undefined;
+
+    if (this.isPaused() || !this.schedule.isWorkingTime() || this.isDoNotDisturbTime() || this.queue.getActive()) {
+      return;
+    }
+
+    await this.offerReminder(reminder);
+    this.saveState();
+  }
+
+  /**
+   * Severity for a retry after ignored reminders: light → standard → strong
+   */
+  private getEscalatedSeverity(severity: ReminderSeverity = 'light'): ReminderSeverity {
+    const level = Math.max(SEVERITY_LADDER.indexOf(severity), Math.min(this.ignoredCount, SEVERITY_LADDER.length - 1));
+    return SEVERITY_LADDER[level];
+  }
+
+  /**
+   * Minutes to wait after an ignored reminder before trying again
+   */
+  private getEscalationBackoffMinutes(): number {
+    return vscode.workspace.getConfiguration('codefit').get<number>('reminder.escalationBackoff', 10);
+  }
+
+  /**
+   * Record the user's answer to a reminder and move the escalation ladder
+   */
+  private resolveReminder(reminder: QueuedReminder, outcome: 'accepted' | 'snoozed' | 'ignored'): void {
+    this.history.resolve(reminder, outcome);
+    this.advanceLadder(reminder, outcome);
+  }
+
+  /**
+   * Climb the escalation ladder after an ignored reminder, or reset it
+   */
+  private advanceLadder(reminder: QueuedReminder, outcome: 'accepted' | 'snoozed' | 'ignored'): void {
+    // Only policy reminders climb the ladder; post-commit nudges are optional
+    if (reminder.source !== 'policy') {
+      return;
+    }
+
+    if (outcome === 'ignored') {
+      this.ignoredCount++;
+      this.nextAttemptAt = new Date(this.clock.now().getTime() + this.getEscalationBackoffMinutes() * 60 * 1000);
+    } else {
+      this.ignoredCount = 0;
+      this.nextAttemptAt = undefined;
+    }
     this.saveState();
   }
 
   /**
    * Get current reminder context
    */
-  private getReminderContext(): ReminderContext {
+  protected getReminderContext(): ReminderContext {
     return {
       lastActivityTime: this.lastActivityTime,
       codeInputFrequency: this.codeInputFrequency,
       lastCommitTime: this.lastCommitTime,
       isDebugging: this.isDebugging(),
+      isZenMode: this.contextDetector?.isZenMode() ?? false,
+      isLiveShare: this.contextDetector?.isLiveShare() ?? false,
+      isPairing: this.contextDetector?.isPairing() ?? false,
+      isTerminalHeavy: this.contextDetector?.isTerminalHeavy() ?? false,
+      isTaskRunning: this.contextDetector?.isTaskRunning() ?? false,
+      flowScore: this.flowDetector?.getFlowScore() ?? 0,
+      isInFlow: this.flowDetector?.isInFlow() ?? false,
       consecutiveWorkMinutes: this.consecutiveWorkMinutes,
       todayBreakCount: this.todayBreakCount
     };
   }
 
   /**
-   * Determine if should show reminder based on context
+   * Show reminder notification
+   */
+  protected async showReminder(decision: ReminderDecision): Promise<void> {
+    const severity = decision.severity || 'standard';
+    const actions = this.getReminderActions(severity);
+    const recommended = this.getRecommendedExercise(severity);
+    if (recommended) {
+      actions.unshift(`▶ ${recommended.name}`);
+    }
+
+    await this.deliver({
+      id: `reminder_${this.clock.now().getTime()}`,
+      source: 'policy',
+      severity,
+      message: this.getReminderMessage(severity),
+      actions,
+      recommendedExerciseId: recommended?.id,
+      createdAt: this.clock.now(),
+      escalation: 0
+    });
+  }
+
+  /**
+   * Whether this window may show Pomodoro and Deep Work notifications right now
    */
-  private shouldShowReminder(context: ReminderContext): boolean {
-    const config = vscode.workspace.getConfiguration('codefit');
-    const frequency = config.get<string>('reminder.frequency', 'smart');
+  private canShowWorkModeNotice(): boolean {
+    return !(this.coordinator && !this.coordinator.isLeader()) &&
+      !this.isPaused() &&
+      this.schedule.isWorkingTime() &&
+      !this.isDoNotDisturbTime();
+  }
 
-    // Don't interrupt high-intensity coding or debugging
-    if (context.isDebugging) {
-      return false;
+  /**
+   * Tell the user a Pomodoro or Deep Work break is over
+   */
+  private showWorkModeNotice(message: string): void {
+    if (this.canShowWorkModeNotice()) {
+      vscode.window.showInformationMessage(message);
     }
+  }
 
-    if (context.codeInputFrequency > 50) {
-      return false; // High-intensity coding
+  /**
+   * Show the break at the end of a Pomodoro or Deep Work focus block
+   */
+  private async showWorkModeBreak(request: WorkModeBreakRequest): Promise<void> {
+    if (!this.canShowWorkModeNotice()) {
+      return;
     }
 
-    // Check based on frequency setting
-    if (frequency === 'smart') {
-      // Smart mode: use multiple factors
+    const actions = [`${request.breakMinutes}-min Break`, 'Later'];
+    const recommended = this.getRecommendedExercise(request.severity);
+    if (recommended) {
+      actions.unshift(`▶ ${recommended.name}`);
+    }
 
-      // Strong reminder: 120+ minutes without break
-      if (context.consecutiveWorkMinutes >= 120) {
-        return true;
-      }
+    await this.deliver({
+      id: `reminder_${this.clock.now().getTime()}`,
+      source: 'work-mode',
+      severity: request.severity,
+      message: request.message,
+      actions,
+      recommendedExerciseId: recommended?.id,
+      createdAt: this.clock.now(),
+      escalation: 0
+    });
+  }
 
-      // Standard reminder: 90+ minutes
-      if (context.consecutiveWorkMinutes >= 90) {
-        return true;
-      }
+  /**
+   * Deliver a reminder in the configured style, one at a time through the queue
+   */
+  private async deliver(reminder: QueuedReminder): Promise<void> {
+    const style = this.getReminderStyle();
 
-      // Light reminder: 45-60 minutes
-      if (context.consecutiveWorkMinutes >= 45 && context.todayBreakCount < 8) {
-        return Math.random() > 0.5; // 50% chance
+    // An unanswered toast may still sit in the notification center: count the
+    // new reminder as ignored instead of opening a second toast next to it
+    if (style !== 'background' && style !== 'statusBar' && this.openToastId) {
+      this.advanceLadder(reminder, 'ignored');
+      return;
+    }
+
+    if (!this.queue.offer(reminder)) {
+      return; // The previous reminder is still pending
+    }
+
+    await this.history.recordShown(reminder);
+
+    if (style === 'background') {
+      // Logged for later review; it stays "shown" unless a break is taken from the inbox,
+      // and the next one waits for the back-off like an ignored toast
+      await this.inbox.add(reminder);
+      this.queue.clear(reminder.id);
+      this.advanceLadder(reminder, 'ignored');
+    } else if (style === 'statusBar') {
+      // The reminder status bar item shows it until the user responds
+      return;
+    } else {
+      this.openToastId = reminder.id;
+      let response: string | undefined;
+      try {
+        response = await this.showToast(reminder);
+      } finally {
+        this.openToastId = undefined;
       }
 
-      // Post-commit reminder
-      if (context.lastCommitTime) {
-        const timeSinceCommit = Date.now() - context.lastCommitTime.getTime();
-        if (timeSinceCommit < 5 * 60 * 1000 && timeSinceCommit > 1 * 60 * 1000) {
-          return true;
+      // Already resolved if a break was taken or it timed out as ignored while the toast was open
+      if (this.queue.getActive()?.id !== reminder.id) {
+        if (response && response !== 'Later') {
+          await this.handleReminderResponse(reminder, response);
         }
+        return;
       }
 
-      return false;
-    } else {
-      // Fixed frequency mode
-      const minutes = parseInt(frequency.replace('min', ''));
-      return context.consecutiveWorkMinutes >= minutes;
+      this.queue.clear(reminder.id);
+      if (response) {
+        await this.handleReminderResponse(reminder, response);
+      } else {
+        this.resolveReminder(reminder, 'ignored');
+      }
     }
   }
 
   /**
-   * Show reminder notification
+   * Show a reminder as a notification and wait for the answer (undefined when closed)
    */
-  private async showReminder(context: ReminderContext): Promise<void> {
-    const config = vscode.workspace.getConfiguration('codefit');
-    const style = config.get<string>('reminder.style', 'toast');
+  protected async showToast(reminder: QueuedReminder): Promise<string | undefined> {
+    return reminder.severity === 'strong'
+      ? await vscode.window.showWarningMessage(reminder.message, ...reminder.actions)
+      : await vscode.window.showInformationMessage(reminder.message, ...reminder.actions);
+  }
 
-    // Determine severity
-    let severity: 'light' | 'standard' | 'strong' = 'standard';
-    if (context.consecutiveWorkMinutes >= 120) {
-      severity = 'strong';
-    } else if (context.consecutiveWorkMinutes < 60) {
-      severity = 'light';
-    }
+  protected getReminderStyle(): string {
+    return vscode.workspace.getConfiguration('codefit').get<string>('reminder.style', 'toast');
+  }
 
-    const message = this.getReminderMessage(severity);
-    const actions = this.getReminderActions(severity);
+  /**
+   * Treat a reminder left unanswered for the back-off period as ignored:
+   * a status bar reminder escalates in place, a toast leaves the queue so the
+   * ladder and quiet-time checks move on while it waits in the notification center
+   */
+  private handleIgnoredReminder(reminder: QueuedReminder): void {
+    const since = (reminder.escalatedAt || reminder.createdAt).getTime();
+    if (this.clock.now().getTime() - since < this.getEscalationBackoffMinutes() * 60 * 1000) {
+      return;
+    }
 
-    let response: string | undefined;
+    this.resolveReminder(reminder, 'ignored');
 
-    if (style === 'toast' || style === 'statusBar') {
-      if (severity === 'strong') {
-        response = await vscode.window.showWarningMessage(message, ...actions);
+    const style = this.getReminderStyle();
+    if (style === 'statusBar') {
+      if (this.queue.escalate()) {
+        const escalated = this.queue.getActive();
+        if (escalated) {
+          this.history.recordShown(escalated);
+        }
       } else {
-        response = await vscode.window.showInformationMessage(message, ...actions);
+        this.queue.clear(reminder.id);
       }
+    } else {
+      this.queue.clear(reminder.id);
     }
+  }
+
+  /**
+   * Show the actions of the pending reminder (from the status bar item)
+   */
+  async showActiveReminderActions(): Promise<void> {
+    const reminder = this.queue.getActive();
+    if (!reminder) {
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick([...reminder.actions, 'Dismiss'], {
+      title: reminder.message,
+      placeHolder: 'Take a break?'
+    });
+
+    if (!selected) {
+      return; // Keep it pending
+    }
+
+    this.queue.clear(reminder.id);
+    if (selected !== 'Dismiss') {
+      await this.handleReminderResponse(reminder, selected);
+    } else {
+      this.resolveReminder(reminder, 'ignored');
+    }
+  }
 
-    // Handle response
-    if (response) {
-      await this.handleReminderResponse(response);
+  /**
+   * Review logged reminders and optionally take the break now
+   */
+  async showReminderInbox(): Promise<void> {
+    const entry = await this.inbox.show();
+    if (!entry) {
+      return;
+    }
+
+    const exercise = entry.recommendedExerciseId
+      ? await this.exerciseService.executeExerciseById(entry.recommendedExerciseId)
+      : await this.exerciseService.showExercisePicker();
+
+    // An abandoned exercise leaves the reminder unanswered
+    if (exercise) {
+      // Background reminders are never escalated in place
+      await this.history.resolve({ id: entry.id, escalation: 0 }, 'accepted');
+      this.recordBreak();
     }
   }
 
+  /**
+   * Get the shared reminder queue
+   */
+  getQueue(): ReminderQueue {
+    return this.queue;
+  }
+
+  /**
+   * Get the working-hours schedule
+   */
+  getSchedule(): WorkSchedule {
+    return this.schedule;
+  }
+
+  /**
+   * Get the reminder response history
+   */
+  getHistory(): ReminderHistory {
+    return this.history;
+  }
+
+  /**
+   * Get the reminder inbox (background style)
+   */
+  getInbox(): ReminderInbox {
+    return this.inbox;
+  }
+
+  /**
+   * Top recommended exercise for a reminder's break length
+   */
+  protected getRecommendedExercise(severity: ReminderSeverity): Exercise | undefined {
+    const minutes = severity === 'strong' ? 5 : severity === 'standard' ? 3 : 1;
+    return this.exerciseService.getRecommendedExercises(minutes * 60, {
+      consecutiveMinutes: this.consecutiveWorkMinutes,
+      currentTime: this.clock.now()
+    })[0]?.exercise;
+  }
+
   /**
    * Get reminder message based on severity
    */
-  private getReminderMessage(severity: 'light' | 'standard' | 'strong'): string {
+  private getReminderMessage(severity: ReminderSeverity): string {
     const messages = {
       light: [
         "You've been coding for a while. Quick stretch?",
@@ -253,62 +1013,80 @@ export class HealthReminderService {
     };
 
     const pool = messages[severity];
-    return pool[Math.floor(Math.random() * pool.length)];
+    return pool[Math.floor(this.random.next() * pool.length)];
   }
 
   /**
    * Get reminder action buttons based on severity
    */
-  private getReminderActions(severity: 'light' | 'standard' | 'strong'): string[] {
+  private getReminderActions(severity: ReminderSeverity): string[] {
     if (severity === 'strong') {
       return ['Take 5-min Break', 'Take 3-min Break'];
     } else if (severity === 'standard') {
-      return ['3-min Exercise', 'Quick Walk', 'Snooze 15min'];
+      return ['3-min Exercise', 'Snooze 15min', 'Snooze…'];
     } else {
-      return ['1-min Stretch', 'Eye Exercise', 'Snooze 30min'];
+      return ['1-min Stretch', 'Snooze 30min', 'Snooze…'];
     }
   }
 
   /**
    * Handle user response to reminder
    */
-  private async handleReminderResponse(response: string): Promise<void> {
-    if (response.includes('Snooze')) {
+  private async handleReminderResponse(reminder: QueuedReminder, response: string): Promise<void> {
+    if (response === 'Later') {
+      this.resolveReminder(reminder, 'ignored');
+      return;
+    }
+
+    if (reminder.recommendedExerciseId && response.startsWith('▶ ')) {
+      const exercise = await this.exerciseService.executeExerciseById(reminder.recommendedExerciseId);
+      this.resolveBreak(reminder, !!exercise);
+    } else if (response === 'Snooze…') {
+      const snooze = await this.showSnoozeMenu();
+      this.resolveReminder(reminder, snooze ? 'snoozed' : 'ignored');
+    } else if (response.includes('Snooze')) {
       const minutes = response.includes('15') ? 15 : 30;
+      this.resolveReminder(reminder, 'snoozed');
       this.snooze(minutes);
       vscode.window.showInformationMessage(`Reminders snoozed for ${minutes} minutes`);
     } else {
-      // User chose to exercise
-      const duration = response.includes('5-min') ? 5 :
-                      response.includes('3-min') ? 3 : 1;
+      // User chose to exercise ("Take 5-min Break", "2-min Break", "Quick Stretch"...)
+      const match = /(\d+)-min/.exec(response);
+      const duration = match ? parseInt(match[1]) * 60 : 60;
+
+      const exercise = await this.exerciseService.showExercisePicker(duration);
+      this.resolveBreak(reminder, !!exercise);
+    }
+  }
 
-      await this.exerciseService.showExercisePicker(duration * 60);
-      this.consecutiveWorkMinutes = 0;
-      this.todayBreakCount++;
+  /**
+   * Settle a reminder answered with an exercise: accepted and a break if the
+   * exercise was done, ignored if it was cancelled or abandoned
+   */
+  private resolveBreak(reminder: QueuedReminder, taken: boolean): void {
+    this.resolveReminder(reminder, taken ? 'accepted' : 'ignored');
+    if (taken) {
+      this.recordBreak();
     }
   }
 
   /**
    * Show post-commit reminder
    */
-  private async showPostCommitReminder(commitMessage: string): Promise<void> {
+  protected async showPostCommitReminder(commitMessage: string): Promise<void> {
     // Analyze commit message for context
     const emotion = this.detectCommitEmotion(commitMessage);
     const message = this.getPostCommitMessage(emotion);
 
-    const response = await vscode.window.showInformationMessage(
+    await this.deliver({
+      id: `reminder_${this.clock.now().getTime()}`,
+      source: 'post-commit',
+      severity: 'light',
       message,
-      '2-min Break',
-      'Quick Stretch',
-      'Later'
-    );
-
-    if (response && response !== 'Later') {
-      const duration = response.includes('2-min') ? 120 : 60;
-      await this.exerciseService.showExercisePicker(duration);
-      this.consecutiveWorkMinutes = 0;
-      this.todayBreakCount++;
-    }
+      actions: ['2-min Break', 'Quick Stretch', 'Later'],
+      createdAt: this.clock.now(),
+      escalation: 0
+    });
   }
 
   /**
@@ -349,65 +1127,45 @@ export class HealthReminderService {
   }
 
   /**
-   * Check if current time is in Do Not Disturb hours
+   * Check if current time is in Do Not Disturb hours or a calendar meeting
    */
   private isDoNotDisturbTime(): boolean {
-    const config = vscode.workspace.getConfiguration('codefit');
-    const enabled = config.get<boolean>('doNotDisturb.enabled', true);
-
-    if (!enabled) {
-      return false;
-    }
-
-    const hours = config.get<string[]>('doNotDisturb.hours', ['12:00-13:00']);
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-    for (const range of hours) {
-      const [start, end] = range.split('-');
-      const [startHour, startMin] = start.split(':').map(Number);
-      const [endHour, endMin] = end.split(':').map(Number);
-
-      const startMinutes = startHour * 60 + startMin;
-      const endMinutes = endHour * 60 + endMin;
-
-      if (currentMinutes >= startMinutes && currentMinutes <= endMinutes) {
-        return true;
-      }
-    }
-
-    return false;
+    return this.schedule.isDoNotDisturb(this.clock.now());
   }
 
   /**
    * Check if currently debugging
    */
-  private isDebugging(): boolean {
+  protected isDebugging(): boolean {
     return vscode.debug.activeDebugSession !== undefined;
   }
 
   /**
    * Setup activity tracking
    */
-  private setupActivityTracking(): void {
-    // Track text document changes to measure code input frequency
-    let recentInputs: number[] = [];
-
-    vscode.workspace.onDidChangeTextDocument((event) => {
-      this.lastActivityTime = new Date();
+  protected setupActivityTracking(): void {
+    this.context.subscriptions.push(
+      // Track text document changes to measure code input frequency
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        // Output channels and other virtual documents change without the user typing
+        if (event.document.uri.scheme !== 'file' && event.document.uri.scheme !== 'untitled') {
+          return;
+        }
 
-      // Track input frequency (characters per minute)
-      const charCount = event.contentChanges.reduce((sum, change) =>
-        sum + change.text.length, 0
-      );
+        const charCount = event.contentChanges.reduce((sum, change) =>
+          sum + change.text.length, 0
+        );
 
-      recentInputs.push(charCount);
-      if (recentInputs.length > 60) {
-        recentInputs.shift();
-      }
+        this.recordInput(charCount);
+      }),
 
-      this.codeInputFrequency = recentInputs.reduce((a, b) => a + b, 0);
-    });
+      // A snooze until the end of the debug session ends with the last session
+      vscode.debug.onDidTerminateDebugSession(() => {
+        if (this.snoozeState?.kind === 'debug' && !vscode.debug.activeDebugSession) {
+          this.cancelSnooze();
+        }
+      })
+    );
 
     // Reset daily counter at midnight
     this.scheduleMidnightReset();
@@ -417,11 +1175,11 @@ export class HealthReminderService {
    * Schedule midnight reset of daily counters
    */
   private scheduleMidnightReset(): void {
-    const now = new Date();
+    const now = this.clock.now();
     const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
     const msUntilMidnight = tomorrow.getTime() - now.getTime();
 
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.todayBreakCount = 0;
       this.saveState();
 
@@ -433,27 +1191,93 @@ export class HealthReminderService {
   /**
    * Save state to storage
    */
-  private saveState(): void {
-    this.context.globalState.update('reminderState', {
+  protected saveState(): void {
+    const state: StoredReminderState = {
       paused: this.paused,
-      snoozedUntil: this.snoozedUntil?.getTime(),
+      snoozedUntil: this.snoozeState?.until?.getTime(),
+      snoozeKind: this.snoozeState?.kind,
+      snoozedAt: this.snoozeState?.startedAt.getTime(),
       lastCommitTime: this.lastCommitTime?.getTime(),
       consecutiveWorkMinutes: this.consecutiveWorkMinutes,
-      todayBreakCount: this.todayBreakCount
-    });
+      todayBreakCount: this.todayBreakCount,
+      ignoredCount: this.ignoredCount,
+      nextAttemptAt: this.nextAttemptAt?.getTime()
+    };
+    this.context.globalState.update('reminderState', state);
+    this.coordinator?.publishState(state);
   }
 
   /**
    * Load state from storage
    */
-  private loadState(): void {
-    const state = this.context.globalState.get<any>('reminderState');
+  protected loadState(): void {
+    const state = this.context.globalState.get<StoredReminderState>('reminderState');
     if (state) {
-      this.paused = state.paused || false;
-      this.snoozedUntil = state.snoozedUntil ? new Date(state.snoozedUntil) : undefined;
-      this.lastCommitTime = state.lastCommitTime ? new Date(state.lastCommitTime) : undefined;
-      this.consecutiveWorkMinutes = state.consecutiveWorkMinutes || 0;
-      this.todayBreakCount = state.todayBreakCount || 0;
+      this.applyState(state);
     }
+
+    // A debug session ends with the window, so a restored snooze waiting for it would never end
+    if (this.snoozeState?.kind === 'debug' && !this.isDebugging()) {
+      this.setSnooze(undefined, false);
+    }
+  }
+
+  private applyState(state: StoredReminderState): void {
+    this.paused = state.paused || false;
+    // State saved before snooze reasons existed only has the end time
+    this.snoozeState = state.snoozeKind || state.snoozedUntil
+      ? {
+        kind: state.snoozeKind || 'duration',
+        startedAt: new Date(state.snoozedAt || this.clock.now().getTime()),
+        until: state.snoozedUntil ? new Date(state.snoozedUntil) : undefined
+      }
+      : undefined;
+    this.onDidChangeSnoozeEmitter.fire(this.snoozeState);
+    this.lastCommitTime = state.lastCommitTime ? new Date(state.lastCommitTime) : undefined;
+    this.consecutiveWorkMinutes = state.consecutiveWorkMinutes || 0;
+    this.todayBreakCount = state.todayBreakCount || 0;
+    this.ignoredCount = state.ignoredCount || 0;
+    this.nextAttemptAt = state.nextAttemptAt ? new Date(state.nextAttemptAt) : undefined;
+  }
+
+  /**
+   * Apply a break, pause, snooze, commit or activity from another window
+   */
+  private applyWindowMessage(message: WindowMessage): void {
+    switch (message.type) {
+      case 'break':
+        this.resetAfterBreak();
+        return; // Saves state itself
+      case 'pause':
+        this.paused = true;
+        break;
+      case 'resume':
+        this.paused = false;
+        this.setSnooze(undefined, false);
+        return;
+      case 'snooze':
+        this.setSnooze({
+          kind: message.kind,
+          startedAt: new Date(message.startedAt),
+          until: message.until ? new Date(message.until) : undefined
+        }, false);
+        return;
+      case 'unsnooze':
+        this.setSnooze(undefined, false);
+        return;
+      case 'commit':
+        if (!this.lastCommitTime || message.at > this.lastCommitTime.getTime()) {
+          this.lastCommitTime = new Date(message.at);
+        }
+        if (this.snoozeState?.kind === 'commit') {
+          this.setSnooze(undefined, false);
+          return;
+        }
+        break;
+      case 'activity':
+        this.idleDetector?.recordActivity(new Date(message.at));
+        return;
+    }
+    this.saveState();
   }
 }
@@ -0,0 +1,420 @@
+import * as vscode from 'vscode';
+import { Exercise, QueuedReminder, ReminderContext, ReminderDecision, ReminderSeverity } from '../types';
+import { getAllExercises, getExerciseById } from '../constants/exercises';
+import { HealthReminderService } from './ReminderService';
+import { ReminderPolicyEngine } from './ReminderPolicyEngine';
+import { FlowDetector } from './FlowDetector';
+import { ExerciseService } from './ExerciseService';
+import { HealthTracker } from './HealthTracker';
+import { GamificationService } from './GamificationService';
+import { ManualClock, RandomSource, createSeededRandom } from '../utils/clock';
+import { format, parse, startOfDay, addDays } from 'date-fns';
+
+export interface SimulationEvent {
+  at: string; // HH:MM
+  type: 'edit' | 'commit' | 'break' | 'debugStart' | 'debugEnd';
+  chars?: number;
+  message?: string;
+}
+
+export interface SimulationScenario {
+  name: string;
+  date?: string; // yyyy-MM-dd, defaults to today
+  start: string; // HH:MM
+  end: string; // HH:MM
+  seed?: number;
+  response?: 'accept' | 'ignore';
+  events: SimulationEvent[];
+}
+
+export interface SimulatedReminder {
+  time: Date;
+  source: QueuedReminder['source'];
+  severity: ReminderSeverity;
+  ruleId?: string;
+  policyId?: string;
+  context: ReminderContext;
+  trace: string[];
+}
+
+/**
+ * Exercise service whose simulated user finishes every exercise at once
+ * instead of opening the exercise player
+ */
+class SimulatedExerciseService extends ExerciseService {
+  async showExercisePicker(suggestedDuration?: number): Promise<Exercise | undefined> {
+    return this.getRecommendedExercises(suggestedDuration)[0]?.exercise || getAllExercises()[0];
+  }
+
+  async executeExerciseById(exerciseId: string): Promise<Exercise | undefined> {
+    return getExerciseById(exerciseId);
+  }
+}
+
+/**
+ * Extension context whose global state reads through to the real one but
+ * keeps writes in memory, so a simulation leaves no trace in the history
+ */
+function createScratchContext(context: vscode.ExtensionContext): vscode.ExtensionContext {
+  const written = new Map<string, unknown>();
+  const globalState = {
+    keys: () => Array.from(new Set([...context.globalState.keys(), ...written.keys()])),
+    get: (key: string, defaultValue?: unknown) => written.has(key) ? (written.get(key) ?? defaultValue) : context.globalState.get(key, defaultValue),
+    update: async (key: string, value: unknown) => {
+      written.set(key, value);
+    },
+    setKeysForSync: () => {}
+  };
+
+  return Object.assign(Object.create(context), { globalState, subscriptions: [] });
+}
+
+/**
+ * Reminder service driven by a manual clock, with no persistence and no
+ * editor listeners. Reminders go through the real queue, escalation and
+ * back-off; only the notification itself is replaced by the simulated
+ * user's answer: the first action when accepting, closing it when ignoring.
+ */
+class SimulatedReminderService extends HealthReminderService {
+  readonly fired: SimulatedReminder[] = [];
+  private debugging = false;
+  private decision?: ReminderDecision;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    exerciseService: ExerciseService,
+    healthTracker: HealthTracker,
+    gamificationService: GamificationService,
+    policyEngine: ReminderPolicyEngine,
+    private simClock: ManualClock,
+    random: RandomSource,
+    private response: 'accept' | 'ignore'
+  ) {
+    super(context, exerciseService, healthTracker, gamificationService, policyEngine, simClock, random);
+  }
+
+  /**
+   * Apply a scenario event
+   */
+  applyEvent(event: SimulationEvent): void {
+    switch (event.type) {
+      case 'edit':
+        this.recordInput(event.chars ?? 20);
+        break;
+      case 'commit':
+        this.notifyCommit(event.message || '');
+        break;
+      case 'break':
+        this.recordBreak();
+        break;
+      case 'debugStart':
+        this.debugging = true;
+        break;
+      case 'debugEnd':
+        this.debugging = false;
+        break;
+    }
+  }
+
+  protected loadState(): void {}
+
+  protected saveState(): void {}
+
+  protected setupActivityTracking(): void {}
+
+  protected isDebugging(): boolean {
+    return this.debugging;
+  }
+
+  protected getReminderStyle(): string {
+    return 'toast';
+  }
+
+  protected async showReminder(decision: ReminderDecision): Promise<void> {
+    // Kept for the rule and trace of the reminder about to be shown
+    this.decision = decision;
+    await super.showReminder(decision);
+    this.decision = undefined;
+  }
+
+  protected async showToast(reminder: QueuedReminder): Promise<string | undefined> {
+    const decision = reminder.source === 'policy' ? this.decision : undefined;
+
+    this.fired.push({
+      time: this.simClock.now(),
+      source: reminder.source,
+      severity: reminder.severity,
+      ruleId: decision?.ruleId,
+      policyId: decision?.policyId,
+      context: this.getReminderContext(),
+      trace: decision?.trace || []
+    });
+
+    return this.response === 'accept' ? reminder.actions[0] : undefined;
+  }
+}
+
+/**
+ * Replays a recorded or synthetic day of editor activity and commits through
+ * the reminder logic to show when each reminder would have fired.
+ */
+export class ReminderSimulator {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private healthTracker: HealthTracker,
+    private gamificationService: GamificationService,
+    private outputChannel: vscode.OutputChannel
+  ) {}
+
+  /**
+   * Ask which day to simulate, run it and print the results
+   */
+  async showSimulationPicker(): Promise<void> {
+    const source = await vscode.window.showQuickPick([
+      { label: '$(beaker) Synthetic day', description: 'Generated workday with edits, commits and a debug session', id: 'synthetic' },
+      { label: '$(history) Recorded day', description: 'Replay a day from your sitting timeline and commits', id: 'recorded' },
+      { label: '$(file) Scenario file', description: 'Load a JSON scenario', id: 'file' }
+    ], { placeHolder: 'What should be simulated?' });
+
+    if (!source) {
+      return;
+    }
+
+    let scenario: SimulationScenario | undefined;
+
+    if (source.id === 'synthetic') {
+      const seedInput = await vscode.window.showInputBox({
+        prompt: 'Random seed (same seed, same day)',
+        value: '42',
+        validateInput: value => /^\d+$/.test(value) ? undefined : 'Enter a whole number'
+      });
+      if (seedInput === undefined) {
+        return;
+      }
+      scenario = this.createSyntheticScenario(new Date(), parseInt(seedInput));
+    } else if (source.id === 'recorded') {
+      const days = Array.from({ length: 14 }, (_, i) => addDays(startOfDay(new Date()), -i))
+        .filter(day => this.healthTracker.getTimelineForDate(day).length > 0);
+
+      if (days.length === 0) {
+        vscode.window.showInformationMessage('No recorded activity in the last 14 days to replay.');
+        return;
+      }
+
+      const day = await vscode.window.showQuickPick(
+        days.map(d => ({ label: format(d, 'EEE MMM d'), date: d })),
+        { placeHolder: 'Which day should be replayed?' }
+      );
+      if (!day) {
+        return;
+      }
+      scenario = this.createRecordedScenario(day.date);
+    } else {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'JSON': ['json'] }
+      });
+      if (!uris || uris.length === 0) {
+        return;
+      }
+      const content = await vscode.workspace.fs.readFile(uris[0]);
+      scenario = JSON.parse(Buffer.from(content).toString('utf8')) as SimulationScenario;
+    }
+
+    if (!scenario) {
+      return;
+    }
+
+    const response = await vscode.window.showQuickPick([
+      { label: 'Ignore reminders', description: 'Close every reminder and keep coding', id: 'ignore' as const },
+      { label: 'Accept reminders', description: 'Take a break whenever a reminder fires', id: 'accept' as const }
+    ], { placeHolder: 'How should the simulated user respond?' });
+
+    if (!response) {
+      return;
+    }
+
+    scenario.response = response.id;
+    const reminders = await this.run(scenario);
+    this.printResults(scenario, reminders);
+  }
+
+  /**
+   * Run a scenario minute by minute through the reminder service
+   */
+  async run(scenario: SimulationScenario): Promise<SimulatedReminder[]> {
+    const day = scenario.date ? parse(scenario.date, 'yyyy-MM-dd', new Date()) : startOfDay(new Date());
+    const start = parse(scenario.start, 'HH:mm', day);
+    const end = parse(scenario.end, 'HH:mm', day);
+    const random = createSeededRandom(scenario.seed ?? 1);
+
+    const clock = new ManualClock(start);
+    const policyEngine = new ReminderPolicyEngine(undefined, random);
+    await policyEngine.loadWorkspacePolicies();
+
+    const context = createScratchContext(this.context);
+    const service = new SimulatedReminderService(
+      context,
+      new SimulatedExerciseService(context, this.healthTracker),
+      this.healthTracker,
+      this.gamificationService,
+      policyEngine,
+      clock,
+      random,
+      scenario.response || 'ignore'
+    );
+    const flowDetector = new FlowDetector(clock);
+    service.setFlowDetector(flowDetector);
+
+    const events = scenario.events
+      .map(event => ({ event, time: parse(event.at, 'HH:mm', day).getTime() }))
+      .sort((a, b) => a.time - b.time);
+
+    service.start();
+
+    let next = 0;
+    while (clock.now().getTime() < end.getTime()) {
+      while (next < events.length && events[next].time <= clock.now().getTime()) {
+        service.applyEvent(events[next].event);
+        next++;
+      }
+      clock.advance(60000);
+      // Let the reminder check, delivery and the simulated answer finish before the next minute
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    service.stop();
+    flowDetector.dispose();
+    return service.fired;
+  }
+
+  /**
+   * Generate a reproducible workday from a seed
+   */
+  createSyntheticScenario(date: Date, seed: number): SimulationScenario {
+    const random = createSeededRandom(seed);
+    const events: SimulationEvent[] = [];
+    const at = (minute: number) => `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+    const dayStart = 9 * 60;
+    const dayEnd = 18 * 60;
+    const lunchStart = 12 * 60;
+    const lunchEnd = 13 * 60;
+    const debugStart = 14 * 60 + Math.floor(random.next() * 120);
+
+    let nextCommit = dayStart + 45 + Math.floor(random.next() * 60);
+
+    for (let minute = dayStart; minute < dayEnd; minute++) {
+      if (minute >= lunchStart && minute < lunchEnd) {
+        continue;
+      }
+
+      // Mostly steady typing with occasional bursts and quiet minutes
+      const roll = random.next();
+      if (roll > 0.15) {
+        const chars = roll > 0.9 ? 60 + Math.floor(random.next() * 60) : Math.floor(random.next() * 30);
+        events.push({ at: at(minute), type: 'edit', chars });
+      }
+
+      if (minute === nextCommit) {
+        events.push({ at: at(minute), type: 'commit', message: random.next() > 0.5 ? 'fix flaky test' : 'add feature' });
+        nextCommit += 60 + Math.floor(random.next() * 60);
+      }
+
+      if (minute === debugStart) {
+        events.push({ at: at(minute), type: 'debugStart' });
+      } else if (minute === debugStart + 20) {
+        events.push({ at: at(minute), type: 'debugEnd' });
+      }
+    }
+
+    return {
+      name: `Synthetic day (seed ${seed})`,
+      date: format(date, 'yyyy-MM-dd'),
+      start: at(dayStart),
+      end: at(dayEnd),
+      seed,
+      events
+    };
+  }
+
+  /**
+   * Build a scenario from the sitting timeline and commit history of a day
+   */
+  createRecordedScenario(date: Date): SimulationScenario | undefined {
+    const entries = this.healthTracker.getTimelineForDate(date);
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const events: SimulationEvent[] = [];
+
+    for (const entry of entries) {
+      if (entry.type === 'work') {
+        // The timeline keeps active minutes, not keystrokes: replay one edit per minute
+        for (let t = entry.start.getTime(); t < entry.end.getTime(); t += 60000) {
+          events.push({ at: format(new Date(t), 'HH:mm'), type: 'edit', chars: 20 });
+        }
+      } else if (entry.type === 'break') {
+        events.push({ at: format(entry.start, 'HH:mm'), type: 'break' });
+      }
+    }
+
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const commits = this.context.globalState.get<Array<{ hash: string; timestamp: number; message?: string }>>('gitCommits', []);
+    for (const commit of commits) {
+      const time = new Date(commit.timestamp);
+      if (format(time, 'yyyy-MM-dd') === dateStr) {
+        events.push({ at: format(time, 'HH:mm'), type: 'commit', message: commit.message });
+      }
+    }
+
+    return {
+      name: `Recorded day ${dateStr}`,
+      date: dateStr,
+      start: format(entries[0].start, 'HH:mm'),
+      end: format(new Date(Math.max(...entries.map(e => e.end.getTime())) + 60000), 'HH:mm'),
+      seed: parseInt(dateStr.replace(/-/g, '')),
+      events
+    };
+  }
+
+  /**
+   * Print simulated reminders to the output channel
+   */
+  private printResults(scenario: SimulationScenario, reminders: SimulatedReminder[]): void {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const showTrace = config.get<boolean>('reminder.trace', false);
+
+    const lines: string[] = [
+      '',
+      `=== Reminder simulation: ${scenario.name} ===`,
+      `${scenario.start}–${scenario.end}, seed ${scenario.seed ?? 1}, user ${scenario.response === 'accept' ? 'accepts' : 'ignores'} reminders`
+    ];
+
+    if (reminders.length === 0) {
+      lines.push('No reminders would have fired.');
+    }
+
+    for (const reminder of reminders) {
+      const rule = reminder.source === 'post-commit'
+        ? 'post-commit prompt'
+        : reminder.ruleId ? `rule "${reminder.ruleId}" of "${reminder.policyId}"` : 'escalated retry';
+      lines.push(
+        `${format(reminder.time, 'HH:mm')}  ${reminder.severity.padEnd(8)}  ${rule}  ` +
+        `(sitting ${reminder.context.consecutiveWorkMinutes} min, ${reminder.context.todayBreakCount} breaks, input ${reminder.context.codeInputFrequency}/min, flow ${reminder.context.flowScore})`
+      );
+      if (showTrace) {
+        reminder.trace.forEach(line => lines.push(`      ${line}`));
+      }
+    }
+
+    const bySeverity = (severity: ReminderSeverity) => reminders.filter(r => r.severity === severity).length;
+    lines.push(
+      `Total: ${reminders.length} (${bySeverity('strong')} strong, ${bySeverity('standard')} standard, ${bySeverity('light')} light)`
+    );
+
+    this.outputChannel.appendLine(lines.join('\n'));
+    this.outputChannel.show(true);
+  }
+}
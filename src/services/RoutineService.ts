@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { Exercise, Routine, RoutineStep } from '../types';
+import { StorageManager } from '../utils/storage';
+import { getAllExercises, getExerciseById } from '../constants/exercises';
+import { Clock, systemClock } from '../utils/clock';
+
+const REST_OPTIONS = [
+  { label: 'No rest', seconds: 0 },
+  { label: '15 seconds', seconds: 15 },
+  { label: '30 seconds', seconds: 30 },
+  { label: '1 minute', seconds: 60 }
+];
+
+/**
+ * Stores named exercise routines and builds them from a multi-step quick pick
+ */
+export class RoutineService {
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Get all saved routines
+   */
+  getRoutines(): Routine[] {
+    const stored = this.storage.get<Routine[]>('routines') || [];
+    return stored.map(r => ({ ...r, createdAt: new Date(r.createdAt) }));
+  }
+
+  /**
+   * Get a routine by ID
+   */
+  getRoutine(id: string): Routine | undefined {
+    return this.getRoutines().find(r => r.id === id);
+  }
+
+  /**
+   * Save (create or replace) a routine
+   */
+  async saveRoutine(routine: Routine): Promise<void> {
+    const routines = this.getRoutines().filter(r => r.id !== routine.id);
+    routines.push(routine);
+    await this.storage.set('routines', routines);
+  }
+
+  /**
+   * Delete a routine
+   */
+  async deleteRoutine(id: string): Promise<void> {
+    await this.storage.set('routines', this.getRoutines().filter(r => r.id !== id));
+  }
+
+  /**
+   * Get the total length of a routine in seconds, rests included
+   */
+  getRoutineDuration(routine: Routine): number {
+    return routine.steps.reduce((sum, step, index) => {
+      const exercise = getExerciseById(step.exerciseId);
+      const rest = index < routine.steps.length - 1 ? step.restAfter || 0 : 0;
+      return sum + (exercise?.duration || 0) + rest;
+    }, 0);
+  }
+
+  /**
+   * Build a routine: name, then exercises one at a time with an optional rest after each
+   */
+  async showRoutineBuilder(): Promise<Routine | undefined> {
+    const name = await vscode.window.showInputBox({
+      title: 'Create Routine (1/3): Name',
+      prompt: 'Name your routine',
+      placeHolder: 'e.g. Morning desk reset',
+      validateInput: value => {
+        if (!value.trim()) {
+          return 'Please enter a name';
+        }
+        if (this.getRoutines().some(r => r.name.toLowerCase() === value.trim().toLowerCase())) {
+          return 'A routine with this name already exists';
+        }
+        return undefined;
+      }
+    });
+
+    if (!name) {
+      return undefined;
+    }
+
+    const steps: RoutineStep[] = [];
+
+    for (;;) {
+      const exercise = await this.pickExercise(name, steps);
+      if (exercise === undefined) {
+        return undefined; // Cancelled
+      }
+      if (exercise === 'done') {
+        break;
+      }
+
+      const rest = await vscode.window.showQuickPick(REST_OPTIONS, {
+        title: `Create Routine (3/3): Rest after ${exercise.name}`,
+        placeHolder: 'Rest before the next exercise'
+      });
+      if (!rest) {
+        return undefined;
+      }
+
+      steps.push({ exerciseId: exercise.id, ...(rest.seconds > 0 ? { restAfter: rest.seconds } : {}) });
+    }
+
+    const routine: Routine = {
+      id: `routine_${this.clock.now().getTime()}`,
+      name: name.trim(),
+      steps,
+      createdAt: this.clock.now()
+    };
+
+    await this.saveRoutine(routine);
+    vscode.window.showInformationMessage(
+      `✅ Routine "${routine.name}" saved: ${steps.length} exercises, about ${Math.ceil(this.getRoutineDuration(routine) / 60)} min`
+    );
+
+    return routine;
+  }
+
+  /**
+   * Let the user pick a saved routine
+   */
+  async pickRoutine(placeHolder: string): Promise<Routine | undefined> {
+    const routines = this.getRoutines();
+
+    if (routines.length === 0) {
+      const response = await vscode.window.showInformationMessage(
+        'You have no routines yet.',
+        'Create Routine'
+      );
+      return response === 'Create Routine' ? this.showRoutineBuilder() : undefined;
+    }
+
+    const items = routines.map(routine => ({
+      label: routine.name,
+      description: `${routine.steps.length} exercises • ${Math.ceil(this.getRoutineDuration(routine) / 60)} min`,
+      detail: this.describeSteps(routine.steps),
+      routine
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder, matchOnDetail: true });
+    return selected?.routine;
+  }
+
+  /**
+   * Pick the next exercise for the routine being built
+   */
+  private async pickExercise(routineName: string, steps: RoutineStep[]): Promise<Exercise | 'done' | undefined> {
+    const items: Array<vscode.QuickPickItem & { exercise?: Exercise }> = getAllExercises().map(exercise => ({
+      label: exercise.name,
+      description: `${Math.floor(exercise.duration / 60)} min • ${exercise.category}`,
+      detail: exercise.benefits[0],
+      exercise
+    }));
+
+    if (steps.length > 0) {
+      items.unshift(
+        { label: '$(check) Done', description: this.describeSteps(steps) },
+        { label: '', kind: vscode.QuickPickItemKind.Separator }
+      );
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: `Create Routine (2/3): ${routineName}`,
+      placeHolder: steps.length === 0 ? 'Add the first exercise' : `Add exercise ${steps.length + 1} or pick Done`,
+      matchOnDescription: true
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+
+    return selected.exercise || 'done';
+  }
+
+  /**
+   * One-line summary of routine steps
+   */
+  private describeSteps(steps: RoutineStep[]): string {
+    return steps
+      .map(step => getExerciseById(step.exerciseId)?.name || step.exerciseId)
+      .join(' → ');
+  }
+}
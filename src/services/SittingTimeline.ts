@@ -0,0 +1,164 @@
+import { TimelineEntry } from '../types';
+import { StorageManager } from '../utils/storage';
+import { format, addDays, startOfDay } from 'date-fns';
+
+/**
+ * Per-day timeline of work sessions, breaks and idle periods.
+ *
+ * Stored under `timeline` next to `activities`, grouped by date.
+ * Sitting metrics are derived from this timeline rather than from
+ * the gaps between exercises.
+ */
+export class SittingTimeline {
+  private openWorkEntry?: TimelineEntry;
+
+  constructor(private storage: StorageManager) {}
+
+  /**
+   * Add an entry, replacing an earlier snapshot with the same type and start
+   */
+  async addEntry(entry: TimelineEntry): Promise<void> {
+    if (entry.end.getTime() <= entry.start.getTime()) {
+      return;
+    }
+
+    const all = this.loadTimeline();
+    const dateStr = format(entry.start, 'yyyy-MM-dd');
+    const entries = (all[dateStr] || []).filter(e =>
+      !(e.type === entry.type && e.start.getTime() === entry.start.getTime())
+    );
+    entries.push({ ...entry });
+    entries.sort((a, b) => a.start.getTime() - b.start.getTime());
+    all[dateStr] = entries;
+
+    // Keep only the last 60 days
+    const cutoff = format(addDays(new Date(), -60), 'yyyy-MM-dd');
+    for (const key of Object.keys(all)) {
+      if (key < cutoff) {
+        delete all[key];
+      }
+    }
+
+    await this.storage.set('timeline', all);
+  }
+
+  /**
+   * Set the in-progress work entry (kept in memory until it is saved)
+   */
+  setOpenWorkEntry(entry: TimelineEntry | undefined): void {
+    this.openWorkEntry = entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Get timeline entries for a specific date, including the open work entry
+   */
+  getEntriesForDate(date: Date): TimelineEntry[] {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const entries = (this.loadTimeline()[dateStr] || []).filter(e =>
+      !(this.openWorkEntry &&
+        e.type === 'work' &&
+        e.start.getTime() === this.openWorkEntry.start.getTime())
+    );
+
+    if (this.openWorkEntry && format(this.openWorkEntry.start, 'yyyy-MM-dd') === dateStr) {
+      entries.push({ ...this.openWorkEntry });
+      entries.sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get all stored timeline entries grouped by date
+   */
+  getAllEntries(): Record<string, TimelineEntry[]> {
+    return this.loadTimeline();
+  }
+
+  /**
+   * Get minutes spent working on a specific date
+   */
+  getWorkMinutesForDate(date: Date): number {
+    const ms = this.getEntriesForDate(date)
+      .filter(e => e.type === 'work')
+      .reduce((sum, e) => sum + (e.end.getTime() - e.start.getTime()), 0);
+
+    return Math.round(ms / (1000 * 60));
+  }
+
+  /**
+   * Get the longest uninterrupted sitting period on a specific date (minutes)
+   *
+   * Work minutes count as sitting. Short gaps between work sessions
+   * (shorter than `maxGapMinutes`) are bridged; any break or idle entry
+   * ends the sitting streak.
+   */
+  getLongestSittingStreak(date: Date, maxGapMinutes: number): number {
+    const minutes = this.buildMinuteMap(date);
+
+    let longest = 0;
+    let current = 0;
+    let gap = 0;
+
+    for (const state of minutes) {
+      if (state === 'work') {
+        current += gap + 1;
+        gap = 0;
+        longest = Math.max(longest, current);
+      } else if (state === 'rest') {
+        current = 0;
+        gap = 0;
+      } else if (current > 0) {
+        gap++;
+        if (gap >= maxGapMinutes) {
+          current = 0;
+          gap = 0;
+        }
+      }
+    }
+
+    return longest;
+  }
+
+  /**
+   * Map each minute of a day to work, rest (break/idle) or nothing.
+   * Rest takes precedence so a break inside a work session splits it.
+   */
+  private buildMinuteMap(date: Date): Array<'work' | 'rest' | undefined> {
+    const dayStart = startOfDay(date).getTime();
+    const minutes: Array<'work' | 'rest' | undefined> = new Array(24 * 60).fill(undefined);
+    const entries = this.getEntriesForDate(date);
+
+    const mark = (entry: TimelineEntry, state: 'work' | 'rest') => {
+      const from = Math.max(0, Math.floor((entry.start.getTime() - dayStart) / 60000));
+      const to = Math.min(minutes.length, Math.ceil((entry.end.getTime() - dayStart) / 60000));
+      for (let i = from; i < to; i++) {
+        minutes[i] = state;
+      }
+    };
+
+    entries.filter(e => e.type === 'work').forEach(e => mark(e, 'work'));
+    entries.filter(e => e.type !== 'work').forEach(e => mark(e, 'rest'));
+
+    return minutes;
+  }
+
+  /**
+   * Load stored timeline grouped by date
+   */
+  private loadTimeline(): Record<string, TimelineEntry[]> {
+    const stored = this.storage.get<Record<string, TimelineEntry[]>>('timeline', {});
+    const result: Record<string, TimelineEntry[]> = {};
+
+    for (const [date, entries] of Object.entries(stored)) {
+      // Convert date strings back to Date objects
+      result[date] = entries.map(e => ({
+        ...e,
+        start: new Date(e.start),
+        end: new Date(e.end)
+      }));
+    }
+
+    return result;
+  }
+}
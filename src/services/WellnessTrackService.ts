@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { addDays, format } from 'date-fns';
+import { TrackLogEntry, WellnessTrack } from '../types';
+import { ExerciseService } from './ExerciseService';
+import { StorageManager } from '../utils/storage';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export const WELLNESS_TRACKS: Array<{ track: WellnessTrack; name: string; icon: string; setting: string; defaultInterval: number }> = [
+  { track: 'hydration', name: 'Hydration', icon: '💧', setting: 'hydration', defaultInterval: 45 },
+  { track: 'eyes', name: '20-20-20 Eye Breaks', icon: '👁️', setting: 'eyeBreaks', defaultInterval: 20 },
+  { track: 'posture', name: 'Posture Checks', icon: '🧍', setting: 'posture', defaultInterval: 30 }
+];
+
+export const EYE_EXERCISE_ID = 'eye_exercise';
+
+const RETENTION_DAYS = 60;
+const TICK_MS = 60 * 1000;
+
+/**
+ * Hydration, 20-20-20 eye break and posture reminders, each on its own
+ * cadence and with its own log, independent of the exercise break reminders.
+ *
+ * Tracks stay quiet whenever exercise reminders would (paused, outside
+ * working hours, Do Not Disturb, away, another window leading, ...) and
+ * restart their cadence afterwards.
+ */
+export class WellnessTrackService {
+  private anchors = new Map<WellnessTrack, number>();
+  private timer?: TimerHandle;
+  private isQuiet: () => boolean = () => false;
+  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fires when a track is logged or its settings change */
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(
+    private storage: StorageManager,
+    private exerciseService: ExerciseService,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Start the track cadences
+   */
+  start(): void {
+    WELLNESS_TRACKS.forEach(t => this.anchors.set(t.track, this.clock.now().getTime()));
+    this.timer = this.clock.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop(): void {
+    this.timer?.cancel();
+    this.timer = undefined;
+    this.onDidChangeEmitter.dispose();
+  }
+
+  /**
+   * Set the check that tells whether reminders should stay quiet
+   */
+  setQuietCheck(isQuiet: () => boolean): void {
+    this.isQuiet = isQuiet;
+  }
+
+  isEnabled(track: WellnessTrack): boolean {
+    const defaults: Record<WellnessTrack, boolean> = { hydration: true, eyes: true, posture: false };
+    return vscode.workspace.getConfiguration('codefit').get<boolean>(`${this.getSetting(track)}.enabled`, defaults[track]);
+  }
+
+  /**
+   * Minutes between reminders for a track
+   */
+  getIntervalMinutes(track: WellnessTrack): number {
+    const info = WELLNESS_TRACKS.find(t => t.track === track);
+    const minutes = vscode.workspace.getConfiguration('codefit')
+      .get<number>(`${this.getSetting(track)}.intervalMinutes`, info?.defaultInterval || 30);
+    return Math.max(5, minutes);
+  }
+
+  /**
+   * Daily water target in glasses
+   */
+  getWaterTarget(): number {
+    return Math.max(1, vscode.workspace.getConfiguration('codefit').get<number>('hydration.dailyTarget', 8));
+  }
+
+  /**
+   * Log a glass of water
+   */
+  async logWater(): Promise<void> {
+    await this.log('hydration', 'done');
+    const glasses = this.getCount('hydration');
+    const target = this.getWaterTarget();
+    vscode.window.setStatusBarMessage(
+      glasses >= target ? `💧 ${glasses}/${target} glasses. Daily target reached!` : `💧 ${glasses}/${target} glasses today`,
+      3000
+    );
+  }
+
+  /**
+   * Run the guided 20-20-20 eye exercise
+   */
+  async takeEyeBreak(): Promise<void> {
+    this.anchors.set('eyes', this.clock.now().getTime());
+    // Recorded as an activity by the exercise service, which counts as an eye break
+    await this.exerciseService.executeExerciseById(EYE_EXERCISE_ID);
+    this.onDidChangeEmitter.fire();
+  }
+
+  /**
+   * Log a posture check
+   */
+  async logPostureCheck(): Promise<void> {
+    await this.log('posture', 'done');
+  }
+
+  /**
+   * Record a track outcome and restart its cadence
+   */
+  async log(track: WellnessTrack, outcome: TrackLogEntry['outcome']): Promise<void> {
+    const cutoff = addDays(this.clock.now(), -RETENTION_DAYS).getTime();
+    const entries = this.getEntries().filter(e => e.at.getTime() >= cutoff);
+    entries.push({ track, at: this.clock.now(), outcome });
+
+    await this.storage.set('trackLog', entries);
+    this.anchors.set(track, this.clock.now().getTime());
+    this.onDidChangeEmitter.fire();
+  }
+
+  /**
+   * Get logged entries, oldest first
+   */
+  getEntries(): TrackLogEntry[] {
+    return this.storage.get<TrackLogEntry[]>('trackLog', []).map(e => ({ ...e, at: new Date(e.at) }));
+  }
+
+  /**
+   * Count completed entries for a track on a date (today by default)
+   */
+  getCount(track: WellnessTrack, date: Date = this.clock.now()): number {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return this.getEntries().filter(e =>
+      e.track === track && e.outcome === 'done' && format(e.at, 'yyyy-MM-dd') === dateStr
+    ).length;
+  }
+
+  /**
+   * Prompt for the first track that is due; while quiet, cadences start over
+   */
+  private tick(): void {
+    const now = this.clock.now().getTime();
+
+    if (this.isQuiet()) {
+      WELLNESS_TRACKS.forEach(t => this.anchors.set(t.track, now));
+      return;
+    }
+
+    // One prompt per minute at most so tracks that fall due together don't stack
+    const due = WELLNESS_TRACKS.find(t =>
+      this.isEnabled(t.track) &&
+      now - (this.anchors.get(t.track) || now) >= this.getIntervalMinutes(t.track) * 60 * 1000
+    );
+
+    if (due) {
+      this.anchors.set(due.track, now);
+      this.prompt(due.track);
+    }
+  }
+
+  private async prompt(track: WellnessTrack): Promise<void> {
+    if (track === 'hydration') {
+      const response = await vscode.window.showInformationMessage(
+        `💧 Time for some water! ${this.getCount('hydration')}/${this.getWaterTarget()} glasses today.`,
+        '+1 Glass',
+        'Skip'
+      );
+      if (response === '+1 Glass') {
+        await this.logWater();
+      } else if (response === 'Skip') {
+        await this.log('hydration', 'skipped');
+      }
+    } else if (track === 'eyes') {
+      const response = await vscode.window.showInformationMessage(
+        '👁️ 20-20-20: look at something 20 feet (6 m) away for 20 seconds.',
+        'Done',
+        'Guided Eye Exercise',
+        'Skip'
+      );
+      if (response === 'Done') {
+        await this.log('eyes', 'done');
+      } else if (response === 'Guided Eye Exercise') {
+        await this.takeEyeBreak();
+      } else if (response === 'Skip') {
+        await this.log('eyes', 'skipped');
+      }
+    } else {
+      const response = await vscode.window.showInformationMessage(
+        '🧍 Posture check: feet flat, back against the chair, shoulders relaxed, screen at eye level.',
+        'Done',
+        'Skip'
+      );
+      if (response) {
+        await this.log('posture', response === 'Done' ? 'done' : 'skipped');
+      }
+    }
+  }
+
+  private getSetting(track: WellnessTrack): string {
+    return WELLNESS_TRACKS.find(t => t.track === track)?.setting || track;
+  }
+}
@@ -0,0 +1,366 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnoozeKind } from '../types';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export type WindowMessage =
+  | { type: 'break' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'snooze'; kind: SnoozeKind; startedAt: number; until?: number }
+  | { type: 'unsnooze' }
+  | { type: 'commit'; at: number }
+  | { type: 'activity'; at: number };
+
+interface LeaderLease {
+  windowId: string;
+  heartbeat: number;
+}
+
+type LoggedMessage = WindowMessage & { from: string; seq: number; sentAt: number };
+
+const HEARTBEAT_MS = 5000;
+const LEASE_MS = 15000;
+const POLL_MS = 2000;
+const MAX_LOG_BYTES = 256 * 1024;
+const LOG_RETENTION_MS = 60 * 1000;
+const CLAIM_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Coordinates CodeFit across the VS Code windows on this machine.
+ *
+ * Windows share a directory in the extension's global storage. One window
+ * holds a lease on `leader.json` and owns reminder scheduling; leadership
+ * follows window focus and passes on when the leader's heartbeat goes
+ * stale. The leader publishes the shared reminder state to `state.json` so
+ * the next leader picks up the same counters. Windows broadcast breaks,
+ * pauses, snoozes, commits and user activity through an append-only message
+ * log. The leader compacts the log into a new generation file and records the
+ * generation in `state.json`; readers finish the old file and follow it.
+ *
+ * If the shared directory can't be created the window runs on its own as leader.
+ */
+export class WindowCoordinator {
+  readonly windowId = `${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+  private leader = false;
+  private seq = 0;
+  private logOffset = 0;
+  private logGeneration = 0;
+  private standalone = false;
+  private lastSeq = new Map<string, number>();
+  private timers: TimerHandle[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private onDidChangeLeadershipEmitter = new vscode.EventEmitter<boolean>();
+  private onDidReceiveMessageEmitter = new vscode.EventEmitter<WindowMessage>();
+
+  /** Fires with true when this window becomes the leader and false when it steps down */
+  readonly onDidChangeLeadership = this.onDidChangeLeadershipEmitter.event;
+
+  /** Fires for each message broadcast by another window */
+  readonly onDidReceiveMessage = this.onDidReceiveMessageEmitter.event;
+
+  constructor(
+    private directory: string,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Join the other windows: elect a leader and start listening for messages
+   */
+  start(): void {
+    try {
+      fs.mkdirSync(path.join(this.directory, 'claims'), { recursive: true });
+    } catch (error) {
+      console.error('CodeFit: Could not coordinate with other windows, running on our own', error);
+      this.standalone = true;
+      this.setLeader(true);
+      return;
+    }
+
+    this.logGeneration = this.readLogGeneration();
+    this.logOffset = this.getLogSize(this.logGeneration); // Only messages sent from now on
+
+    if (vscode.window.state.focused) {
+      this.claimLeadership();
+    } else {
+      this.elect();
+    }
+
+    this.timers.push(
+      this.clock.setInterval(() => this.elect(), HEARTBEAT_MS),
+      this.clock.setInterval(() => this.poll(), POLL_MS)
+    );
+    this.disposables.push(
+      this.onDidChangeLeadershipEmitter,
+      this.onDidReceiveMessageEmitter,
+      vscode.window.onDidChangeWindowState(state => {
+        // Reminders fire in the window the user is looking at
+        if (state.focused) {
+          this.claimLeadership();
+        }
+      })
+    );
+  }
+
+  /**
+   * Whether this window owns reminder scheduling
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Take over leadership from whichever window holds it
+   */
+  claimLeadership(): void {
+    this.writeLease();
+    this.setLeader(this.readLease()?.windowId === this.windowId);
+  }
+
+  /**
+   * Send a message to every other window
+   */
+  broadcast(message: WindowMessage): void {
+    if (this.standalone) {
+      return;
+    }
+
+    const entry: LoggedMessage = { ...message, from: this.windowId, seq: ++this.seq, sentAt: this.clock.now().getTime() };
+    try {
+      fs.appendFileSync(this.logFile(this.readLogGeneration()), JSON.stringify(entry) + '\n');
+    } catch (error) {
+      console.error('CodeFit: Could not broadcast to other windows', error);
+    }
+  }
+
+  /**
+   * Publish state for the next leader to pick up
+   */
+  publishState(state: object): void {
+    if (this.leader && !this.standalone) {
+      this.writeAtomic('state.json', { ...state, logGeneration: this.readLogGeneration() });
+    }
+  }
+
+  /**
+   * Read the state published by the current or previous leader
+   */
+  readState<T>(): T | undefined {
+    return this.standalone ? undefined : this.readJson<T>('state.json');
+  }
+
+  /**
+   * Claim a one-off job (e.g. the post-commit reminder for a commit);
+   * true for exactly one window
+   */
+  claimOnce(key: string): boolean {
+    if (this.standalone) {
+      return true;
+    }
+
+    try {
+      fs.writeFileSync(this.file('claims', key.replace(/[^\w.-]/g, '_')), this.windowId, { flag: 'wx' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  dispose(): void {
+    this.timers.forEach(timer => timer.cancel());
+    this.timers = [];
+
+    // Hand over straight away rather than waiting for the lease to expire
+    if (this.leader && !this.standalone && this.readLease()?.windowId === this.windowId) {
+      try {
+        fs.unlinkSync(this.file('leader.json'));
+      } catch {
+        // Another window already took over
+      }
+    }
+
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Renew our lease, or take over one that has gone stale
+   */
+  private elect(): void {
+    const lease = this.readLease();
+    const now = this.clock.now().getTime();
+
+    if (lease?.windowId === this.windowId || !lease || now - lease.heartbeat > LEASE_MS) {
+      this.claimLeadership();
+    } else {
+      this.setLeader(false);
+    }
+
+    if (this.leader) {
+      this.cleanUp();
+    }
+  }
+
+  /**
+   * Read messages appended since the last poll
+   */
+  private poll(): void {
+    const generation = this.readLogGeneration();
+    if (generation !== this.logGeneration) {
+      // The log was compacted: finish the old file, then read the new one from the
+      // start; sequence numbers skip the messages carried over that we have seen
+      this.readLog();
+      this.logGeneration = generation;
+      this.logOffset = 0;
+    }
+    this.readLog();
+  }
+
+  /**
+   * Read the current log generation from our offset on
+   */
+  private readLog(): void {
+    const size = this.getLogSize(this.logGeneration);
+    if (size < this.logOffset) {
+      this.logOffset = 0; // Replaced outside CodeFit; sequence numbers skip what we have seen
+    }
+    if (size === this.logOffset) {
+      return;
+    }
+
+    let text: string;
+    try {
+      const buffer = Buffer.alloc(size - this.logOffset);
+      const fd = fs.openSync(this.logFile(this.logGeneration), 'r');
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, this.logOffset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      text = buffer.toString('utf8');
+    } catch {
+      return;
+    }
+
+    // Leave a partially written last line for the next poll
+    const complete = text.slice(0, text.lastIndexOf('\n') + 1);
+    this.logOffset += Buffer.byteLength(complete);
+
+    for (const line of complete.split('\n')) {
+      const message = this.parseMessage(line);
+      if (!message || message.from === this.windowId || message.seq <= (this.lastSeq.get(message.from) || 0)) {
+        continue;
+      }
+      this.lastSeq.set(message.from, message.seq);
+
+      const { from, seq, sentAt, ...payload } = message;
+      this.onDidReceiveMessageEmitter.fire(payload as WindowMessage);
+    }
+  }
+
+  /**
+   * Compact the message log into the next generation and drop old claims (leader only)
+   */
+  private cleanUp(): void {
+    const now = this.clock.now().getTime();
+    const generation = this.readLogGeneration();
+
+    if (this.getLogSize(generation) > MAX_LOG_BYTES) {
+      try {
+        const recent = fs.readFileSync(this.logFile(generation), 'utf8')
+          .split('\n')
+          .filter(line => (this.parseMessage(line)?.sentAt || 0) >= now - LOG_RETENTION_MS);
+
+        // Never rewrite the log in place: appends would be lost and readers would resume mid-line
+        const next = generation + 1;
+        if (this.writeAtomic(path.basename(this.logFile(next)), recent.map(line => line + '\n').join('')) &&
+          this.writeAtomic('state.json', { ...this.readState<object>(), logGeneration: next }) &&
+          generation > 0) {
+          fs.rmSync(this.logFile(generation - 1), { force: true });
+        }
+      } catch (error) {
+        console.error('CodeFit: Could not compact the window message log', error);
+      }
+    }
+
+    try {
+      for (const name of fs.readdirSync(this.file('claims'))) {
+        const claim = this.file('claims', name);
+        if (now - fs.statSync(claim).mtimeMs > CLAIM_RETENTION_MS) {
+          fs.unlinkSync(claim);
+        }
+      }
+    } catch {
+      // Claims are cleaned up again on the next heartbeat
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader !== this.leader) {
+      this.leader = leader;
+      this.onDidChangeLeadershipEmitter.fire(leader);
+    }
+  }
+
+  private readLease(): LeaderLease | undefined {
+    return this.readJson<LeaderLease>('leader.json');
+  }
+
+  private writeLease(): void {
+    const lease: LeaderLease = { windowId: this.windowId, heartbeat: this.clock.now().getTime() };
+    this.writeAtomic('leader.json', lease);
+  }
+
+  private parseMessage(line: string): LoggedMessage | undefined {
+    try {
+      return line ? JSON.parse(line) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private readLogGeneration(): number {
+    return this.readJson<{ logGeneration?: number }>('state.json')?.logGeneration || 0;
+  }
+
+  private logFile(generation: number): string {
+    return this.file(`messages.${generation}.log`);
+  }
+
+  private getLogSize(generation: number): number {
+    try {
+      return fs.statSync(this.logFile(generation)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private readJson<T>(name: string): T | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.file(name), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write through a temporary file so readers never see half a file; false if it failed
+   */
+  private writeAtomic(name: string, value: object | string): boolean {
+    const temp = this.file(`${name}.${this.windowId}.tmp`);
+    try {
+      fs.writeFileSync(temp, typeof value === 'string' ? value : JSON.stringify(value));
+      fs.renameSync(temp, this.file(name));
+      return true;
+    } catch (error) {
+      console.error(`CodeFit: Could not write ${name}`, error);
+      return false;
+    }
+  }
+
+  private file(...segments: string[]): string {
+    return path.join(this.directory, ...segments);
+  }
+}
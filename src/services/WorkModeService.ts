@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import { format } from 'date-fns';
+import { ReminderSeverity, WorkMode, WorkModePhase, WorkModeState } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export const WORK_MODES: Array<{ mode: WorkMode; name: string; icon: string; description: string }> = [
+  { mode: 'freeform', name: 'Freeform', icon: '$(pulse)', description: 'Smart reminders based on how you work' },
+  { mode: 'pomodoro', name: 'Pomodoro', icon: '🍅', description: 'Focus/break cycles with a longer break after each set' },
+  { mode: 'deepWork', name: 'Deep Work', icon: '🧠', description: 'No interruptions during a focus block, one longer break at the end' }
+];
+
+export interface WorkModeBreakRequest {
+  mode: WorkMode;
+  severity: ReminderSeverity;
+  message: string;
+  breakMinutes: number;
+}
+
+const SEVERITY_ORDER: ReminderSeverity[] = ['light', 'standard', 'strong'];
+const TICK_MS = 1000;
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * Runs the focus/break timer for the Pomodoro and Deep Work modes.
+ *
+ * In Pomodoro mode the timer itself decides when breaks are due. In Deep Work
+ * mode reminders that come due during a focus block are held back and
+ * batched into one longer break at the end of the block. Freeform leaves
+ * reminders to the reminder policy.
+ */
+export class WorkModeService {
+  private state?: WorkModeState;
+  private timer?: TimerHandle;
+  private reminderHeld = false;
+  private disposables: vscode.Disposable[] = [];
+  private onDidRequestBreakEmitter = new vscode.EventEmitter<WorkModeBreakRequest>();
+  private onDidChangeEmitter = new vscode.EventEmitter<WorkModeState | undefined>();
+  private onDidEndBreakEmitter = new vscode.EventEmitter<string>();
+
+  /** Fires when a focus block ends and a break is due */
+  readonly onDidRequestBreak = this.onDidRequestBreakEmitter.event;
+
+  /** Fires with a notice when a break ends and the next focus block starts */
+  readonly onDidEndBreak = this.onDidEndBreakEmitter.event;
+
+  /** Fires when the mode or phase changes */
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Start the timer, resuming a stored cycle if it is still current
+   */
+  start(): void {
+    this.state = this.loadState();
+
+    // A cycle left over from long ago starts afresh
+    if (this.state && this.clock.now().getTime() - this.state.phaseEndsAt.getTime() > STALE_AFTER_MS) {
+      this.state.cycle = 0;
+      this.startPhase('focus');
+    }
+    this.syncWithMode();
+
+    this.timer = this.clock.setInterval(() => this.tick(), TICK_MS);
+    this.disposables.push(
+      this.onDidRequestBreakEmitter,
+      this.onDidChangeEmitter,
+      this.onDidEndBreakEmitter,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('codefit.workMode')) {
+          this.syncWithMode();
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the configured work mode
+   */
+  getMode(): WorkMode {
+    return vscode.workspace.getConfiguration('codefit').get<WorkMode>('workMode', 'freeform');
+  }
+
+  /**
+   * Switch work mode (saved to user settings)
+   */
+  async setMode(mode: WorkMode): Promise<void> {
+    await vscode.workspace.getConfiguration('codefit').update('workMode', mode, vscode.ConfigurationTarget.Global);
+    this.syncWithMode();
+  }
+
+  /**
+   * Let the user pick the work mode, or restart or skip the current phase
+   */
+  async selectMode(): Promise<WorkMode | undefined> {
+    const active = this.getMode();
+    const items: Array<vscode.QuickPickItem & { mode?: WorkMode; action?: 'restart' | 'skip' }> = WORK_MODES.map(m => ({
+      label: `${m.mode === active ? '$(check) ' : ''}${m.icon} ${m.name}`,
+      description: m.description,
+      mode: m.mode
+    }));
+
+    if (this.state) {
+      items.push(
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(debug-restart) Restart focus block', action: 'restart' },
+        { label: '$(debug-step-over) Skip to next phase', action: 'skip' }
+      );
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select work mode'
+    });
+
+    if (selected?.action === 'restart') {
+      this.restart();
+    } else if (selected?.action === 'skip') {
+      this.skipPhase();
+    } else if (selected?.mode) {
+      await this.setMode(selected.mode);
+      return selected.mode;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the timer state; undefined in freeform mode
+   */
+  getState(): WorkModeState | undefined {
+    return this.state;
+  }
+
+  /**
+   * Seconds left in the current phase
+   */
+  getRemainingSeconds(): number {
+    if (!this.state) {
+      return 0;
+    }
+    return Math.max(0, Math.ceil((this.state.phaseEndsAt.getTime() - this.clock.now().getTime()) / 1000));
+  }
+
+  /**
+   * Whether a Deep Work focus block is running (reminders should be held)
+   */
+  isHoldingReminders(): boolean {
+    return this.state?.mode === 'deepWork' && this.state.phase === 'focus';
+  }
+
+  /**
+   * Hold back a reminder until the end of the Deep Work block; a reminder that
+   * stays due is counted once, however many times it is held
+   */
+  holdReminder(severity: ReminderSeverity): void {
+    if (!this.isHoldingReminders() || !this.state) {
+      return;
+    }
+
+    if (!this.reminderHeld) {
+      this.state.heldReminders++;
+      this.reminderHeld = true;
+    }
+    if (!this.state.heldSeverity || SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(this.state.heldSeverity)) {
+      this.state.heldSeverity = severity;
+    }
+    this.saveState();
+    this.onDidChangeEmitter.fire(this.state);
+  }
+
+  /**
+   * The held reminder is no longer due; the next one counts separately
+   */
+  releaseHeldReminder(): void {
+    this.reminderHeld = false;
+  }
+
+  /**
+   * Start a new focus block now
+   */
+  restart(): void {
+    if (this.state) {
+      this.startPhase('focus');
+    }
+  }
+
+  /**
+   * End the current phase early
+   */
+  skipPhase(): void {
+    if (this.state) {
+      this.completePhase();
+    }
+  }
+
+  dispose(): void {
+    this.timer?.cancel();
+    this.timer = undefined;
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Start, keep or drop the timer to match the configured mode
+   */
+  private syncWithMode(): void {
+    const mode = this.getMode();
+
+    if (mode === 'freeform') {
+      this.state = undefined;
+      this.storage.remove('workModeState');
+      this.onDidChangeEmitter.fire(undefined);
+      return;
+    }
+
+    if (this.state?.mode !== mode) {
+      this.state = {
+        mode,
+        phase: 'focus',
+        phaseStartedAt: this.clock.now(),
+        phaseEndsAt: this.clock.now(),
+        cycle: 0,
+        completedToday: this.state?.completedToday ?? 0,
+        date: format(this.clock.now(), 'yyyy-MM-dd'),
+        heldReminders: 0
+      };
+      this.startPhase('focus');
+    }
+  }
+
+  private tick(): void {
+    if (!this.state) {
+      return;
+    }
+
+    if (this.clock.now() >= this.state.phaseEndsAt) {
+      this.completePhase();
+    }
+  }
+
+  /**
+   * Move from focus to break or from break to the next focus block
+   */
+  private completePhase(): void {
+    if (!this.state) {
+      return;
+    }
+
+    if (this.state.phase !== 'focus') {
+      this.startPhase('focus');
+      this.onDidEndBreakEmitter.fire(
+        this.state.mode === 'pomodoro' ? '🍅 Break over. Next focus block started.' : '🧠 Break over. Next deep work block started.'
+      );
+      return;
+    }
+
+    const today = format(this.clock.now(), 'yyyy-MM-dd');
+    if (this.state.date !== today) {
+      this.state.date = today;
+      this.state.completedToday = 0;
+    }
+    this.state.completedToday++;
+    this.state.cycle++;
+
+    const request = this.state.mode === 'pomodoro' ? this.getPomodoroBreak(this.state) : this.getDeepWorkBreak(this.state);
+    this.startPhase(request.phase);
+    this.onDidRequestBreakEmitter.fire(request.request);
+  }
+
+  private getPomodoroBreak(state: WorkModeState): { phase: WorkModePhase; request: WorkModeBreakRequest } {
+    const config = vscode.workspace.getConfiguration('codefit');
+    const cyclesBeforeLongBreak = Math.max(1, config.get<number>('pomodoro.cyclesBeforeLongBreak', 4));
+    const longBreak = state.cycle >= cyclesBeforeLongBreak;
+
+    if (longBreak) {
+      const breakMinutes = config.get<number>('pomodoro.longBreakMinutes', 15);
+      return {
+        phase: 'longBreak',
+        request: {
+          mode: 'pomodoro',
+          severity: 'strong',
+          message: `🍅 Set of ${cyclesBeforeLongBreak} done! Take a ${breakMinutes}-minute break and move around.`,
+          breakMinutes
+        }
+      };
+    }
+
+    const breakMinutes = config.get<number>('pomodoro.shortBreakMinutes', 5);
+    return {
+      phase: 'shortBreak',
+      request: {
+        mode: 'pomodoro',
+        severity: 'standard',
+        message: `🍅 Pomodoro ${state.cycle}/${cyclesBeforeLongBreak} done. Take a ${breakMinutes}-minute break.`,
+        breakMinutes
+      }
+    };
+  }
+
+  private getDeepWorkBreak(state: WorkModeState): { phase: WorkModePhase; request: WorkModeBreakRequest } {
+    const breakMinutes = vscode.workspace.getConfiguration('codefit').get<number>('deepWork.breakMinutes', 15);
+    const held = state.heldReminders;
+
+    return {
+      phase: 'longBreak',
+      request: {
+        mode: 'deepWork',
+        severity: state.heldSeverity || 'standard',
+        message: held > 0
+          ? `🧠 Deep work block done. ${held} reminder${held === 1 ? ' was' : 's were'} held back, so take a ${breakMinutes}-minute break now.`
+          : `🧠 Deep work block done. Take a ${breakMinutes}-minute break.`,
+        breakMinutes
+      }
+    };
+  }
+
+  private startPhase(phase: WorkModePhase): void {
+    if (!this.state) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('codefit');
+    const pomodoro = this.state.mode === 'pomodoro';
+    const minutes: Record<WorkModePhase, number> = {
+      focus: pomodoro ? config.get<number>('pomodoro.focusMinutes', 25) : config.get<number>('deepWork.blockMinutes', 90),
+      shortBreak: config.get<number>('pomodoro.shortBreakMinutes', 5),
+      longBreak: pomodoro ? config.get<number>('pomodoro.longBreakMinutes', 15) : config.get<number>('deepWork.breakMinutes', 15)
+    };
+
+    const now = this.clock.now();
+    this.state.phase = phase;
+    this.state.phaseStartedAt = now;
+    this.state.phaseEndsAt = new Date(now.getTime() + minutes[phase] * 60 * 1000);
+
+    if (phase === 'focus') {
+      this.reminderHeld = false;
+      this.state.heldReminders = 0;
+      this.state.heldSeverity = undefined;
+    } else if (phase === 'longBreak') {
+      this.state.cycle = 0;
+    }
+
+    this.saveState();
+    this.onDidChangeEmitter.fire(this.state);
+  }
+
+  private loadState(): WorkModeState | undefined {
+    const stored = this.storage.get<WorkModeState>('workModeState');
+    if (!stored) {
+      return undefined;
+    }
+
+    return {
+      ...stored,
+      phaseStartedAt: new Date(stored.phaseStartedAt),
+      phaseEndsAt: new Date(stored.phaseEndsAt)
+    };
+  }
+
+  private saveState(): void {
+    if (this.state) {
+      this.storage.set('workModeState', this.state);
+    }
+  }
+}
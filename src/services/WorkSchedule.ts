@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UserProfile } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Clock, systemClock } from '../utils/clock';
+import { getSystemTimeZone, getZonedTime, isValidTimeZone } from '../utils/timezone';
+import { CalendarEvent, findEventAt, getOccurrenceAt, parseIcs } from '../utils/ics';
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export type WeeklyHours = Partial<Record<string, string[]>>;
+
+interface TimeRange {
+  start: number; // minutes since midnight
+  end: number; // minutes since midnight; <= start for ranges that cross midnight
+}
+
+/**
+ * Parse an `HH:MM-HH:MM` range; the end may be earlier than the start for overnight ranges
+ */
+export function parseTimeRange(range: string): TimeRange | undefined {
+  const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(range);
+  if (!match) {
+    return undefined;
+  }
+
+  const [startHour, startMin, endHour, endMin] = match.slice(1).map(Number);
+  if (startHour > 24 || endHour > 24 || startMin > 59 || endMin > 59) {
+    return undefined;
+  }
+
+  return { start: startHour * 60 + startMin, end: endHour * 60 + endMin };
+}
+
+/**
+ * Weekly working hours, holidays and Do Not Disturb windows (fixed hours and
+ * meetings from a local ICS calendar), evaluated in the user's time zone
+ */
+export class WorkSchedule {
+  private calendar?: { file: string; mtimeMs: number; timeZone: string; events: CalendarEvent[] };
+  private calendarWarning?: string;
+
+  constructor(
+    private storage: StorageManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Whether a working-hours schedule is configured
+   */
+  isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('codefit').get<boolean>('schedule.enabled', false);
+  }
+
+  /**
+   * Time zone for the schedule: the setting, then the signed-in profile, then the system
+   */
+  getTimeZone(): string {
+    const configured = vscode.workspace.getConfiguration('codefit').get<string>('schedule.timezone', '').trim();
+    if (configured && isValidTimeZone(configured)) {
+      return configured;
+    }
+
+    const profile = this.storage.get<Partial<UserProfile>>('userProfile');
+    if (profile?.timezone && isValidTimeZone(profile.timezone)) {
+      return profile.timezone;
+    }
+
+    return getSystemTimeZone();
+  }
+
+  /**
+   * Remember the signed-in user's profile (for the time zone)
+   */
+  async setProfile(profile: Partial<UserProfile>): Promise<void> {
+    await this.storage.set('userProfile', { timezone: profile.timezone });
+  }
+
+  /**
+   * Check if a time falls within working hours; always true without a schedule
+   */
+  isWorkingTime(date: Date = this.clock.now()): boolean {
+    if (!this.isEnabled()) {
+      return true;
+    }
+
+    const timeZone = this.getTimeZone();
+    const today = getZonedTime(date, timeZone);
+    const yesterday = getZonedTime(new Date(date.getTime() - 24 * 60 * 60 * 1000), timeZone);
+
+    const inToday = !this.isHoliday(today.dateKey) && this.getRanges(today.weekday).some(range =>
+      range.end > range.start
+        ? today.minutes >= range.start && today.minutes < range.end
+        : today.minutes >= range.start
+    );
+
+    // Overnight shifts started yesterday run on into today
+    const inYesterdaysShift = !this.isHoliday(yesterday.dateKey) && this.getRanges(yesterday.weekday).some(range =>
+      range.end <= range.start && today.minutes < range.end
+    );
+
+    return inToday || inYesterdaysShift;
+  }
+
+  /**
+   * The last working day before the given date (the previous calendar day without a schedule)
+   */
+  getPreviousWorkingDay(date: Date = this.clock.now()): Date {
+    const timeZone = this.getTimeZone();
+
+    for (let daysBack = 1; daysBack <= 7 && this.isEnabled(); daysBack++) {
+      const day = new Date(date.getTime() - daysBack * 24 * 60 * 60 * 1000);
+      const zoned = getZonedTime(day, timeZone);
+      if (this.getRanges(zoned.weekday).length > 0 && !this.isHoliday(zoned.dateKey)) {
+        return day;
+      }
+    }
+
+    return new Date(date.getTime() - 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Check if a time falls in Do Not Disturb hours or a calendar meeting
+   */
+  isDoNotDisturb(date: Date = this.clock.now()): boolean {
+    const config = vscode.workspace.getConfiguration('codefit');
+    if (!config.get<boolean>('doNotDisturb.enabled', true)) {
+      return false;
+    }
+
+    const minutes = getZonedTime(date, this.getTimeZone()).minutes;
+    const hours = config.get<string[]>('doNotDisturb.hours', ['12:00-13:00']);
+
+    const inHours = hours.some(value => {
+      const range = parseTimeRange(value);
+      if (!range) {
+        return false;
+      }
+      return range.end > range.start
+        ? minutes >= range.start && minutes <= range.end
+        : minutes >= range.start || minutes <= range.end;
+    });
+
+    return inHours || this.getMeetingAt(date) !== undefined;
+  }
+
+  /**
+   * Get the calendar event in progress at a time, if any
+   */
+  getMeetingAt(date: Date = this.clock.now()): CalendarEvent | undefined {
+    const events = this.loadCalendar();
+    return events.length > 0 ? findEventAt(events, date) : undefined;
+  }
+
+  /**
+   * Get when the calendar meeting in progress at a time ends, if there is one
+   */
+  getMeetingEnd(date: Date = this.clock.now()): Date | undefined {
+    const meeting = this.getMeetingAt(date);
+    return meeting ? getOccurrenceAt(meeting, date)?.end : undefined;
+  }
+
+  /**
+   * Resolve the configured calendar file path (supports ~ and workspace-relative paths)
+   */
+  getCalendarFile(): string | undefined {
+    const configured = vscode.workspace.getConfiguration('codefit').get<string>('doNotDisturb.calendarFile', '').trim();
+    if (!configured) {
+      return undefined;
+    }
+
+    const expanded = configured.replace(/^~(?=$|[\\/])/, os.homedir());
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+    if (path.isAbsolute(expanded) || !workspaceFolder) {
+      return expanded;
+    }
+    return path.join(workspaceFolder.uri.fsPath, expanded);
+  }
+
+  private getRanges(weekday: number): TimeRange[] {
+    const hours = vscode.workspace.getConfiguration('codefit').get<WeeklyHours>('schedule.workingHours', {});
+    return (hours[WEEKDAYS[weekday]] || [])
+      .map(parseTimeRange)
+      .filter((range): range is TimeRange => range !== undefined);
+  }
+
+  private isHoliday(dateKey: string): boolean {
+    return vscode.workspace.getConfiguration('codefit').get<string[]>('schedule.holidays', []).includes(dateKey);
+  }
+
+  /**
+   * Read the calendar file, re-parsing only when it (or the time zone) changes
+   */
+  private loadCalendar(): CalendarEvent[] {
+    const file = this.getCalendarFile();
+    if (!file) {
+      this.calendar = undefined;
+      return [];
+    }
+
+    const timeZone = this.getTimeZone();
+
+    try {
+      const { mtimeMs } = fs.statSync(file);
+      if (this.calendar?.file !== file || this.calendar.mtimeMs !== mtimeMs || this.calendar.timeZone !== timeZone) {
+        const events = parseIcs(fs.readFileSync(file, 'utf8'), timeZone);
+        this.calendar = { file, mtimeMs, timeZone, events };
+      }
+      this.calendarWarning = undefined;
+      return this.calendar.events;
+    } catch (error) {
+      // Warn once per file rather than every minute
+      if (this.calendarWarning !== file) {
+        this.calendarWarning = file;
+        vscode.window.showWarningMessage(`CodeFit: Could not read calendar file ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+      this.calendar = undefined;
+      return [];
+    }
+  }
+}
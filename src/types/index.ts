@@ -88,6 +88,7 @@ export interface Exercise {
   id: string;
   name: string;
   category: '1min' | '3min' | '5min' | 'targeted';
+  type?: ExerciseType;
   duration: number; // seconds
   steps: ExerciseStep[];
   benefits: string[];
@@ -100,14 +101,29 @@ export interface Exercise {
     url: string;
   };
   voiceGuidance?: string;
+  sourceFile?: string; // custom exercises: the file that defines it
 }
 
+export type ExerciseType = 'stretch' | 'cardio' | 'breathing' | 'strength' | 'eye';
+
 export interface ExerciseStep {
   instruction: string;
   duration: number;
   image?: string;
 }
 
+export interface Routine {
+  id: string;
+  name: string;
+  steps: RoutineStep[];
+  createdAt: Date;
+}
+
+export interface RoutineStep {
+  exerciseId: string;
+  restAfter?: number; // seconds of rest before the next exercise
+}
+
 // ============= Activity Types =============
 
 export interface Activity {
@@ -116,7 +132,10 @@ export interface Activity {
   type: 'exercise' | 'break' | 'challenge_participation';
   exerciseId?: string;
   exerciseName: string;
-  duration: number; // seconds
+  duration: number; // seconds actually spent
+  completionStatus: 'completed' | 'partial' | 'abandoned';
+  stepsCompleted?: number;
+  totalSteps?: number;
   caloriesBurned: number;
   pointsEarned: number;
   pointsBreakdown: PointsBreakdown;
@@ -124,6 +143,7 @@ export interface Activity {
   triggeredBy: 'reminder' | 'manual' | 'commit' | 'challenge';
   teamId?: string;
   challengeId?: string;
+  routineId?: string;
   startedAt: Date;
   completedAt: Date;
   createdAt: Date;
@@ -135,6 +155,29 @@ export interface PointsBreakdown {
   bonus: number;
 }
 
+// ============= Points Ledger Types =============
+
+export type LedgerEntryType =
+  | 'exercise'
+  | 'bonus' // early bird and routine completion bonuses
+  | 'streak-bonus'
+  | 'quest'
+  | 'challenge'
+  | 'achievement'
+  | 'carry-over'; // balances from before the ledger, and compacted old entries
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  at: Date;
+  xp: number;
+  points: number; // negative for points spent
+  description: string;
+  activityId?: string; // exercise entries: the activity the points were earned for
+  sourceId?: string; // exercise, quest task, challenge or achievement ID
+  breakdown?: PointsBreakdown;
+}
+
 // ============= Achievement Types =============
 
 export interface Achievement {
@@ -157,9 +200,32 @@ export interface AchievementRequirement {
   days?: number;
   count?: number;
   time?: 'morning' | 'afternoon' | 'evening' | 'night';
+  consecutive?: boolean; // time-based: the `days` must follow each other
+  withinMinutes?: number; // speed: how soon after a reminder the exercise starts
   action?: string;
 }
 
+export interface AchievementHistory {
+  activities: Activity[];
+  reminders: ReminderHistoryEntry[];
+  streak: number;
+  longestStreak: number;
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  percent: number; // 0-100
+  unit: string; // e.g. 'days', 'breaks'
+  met: boolean;
+}
+
+export interface AchievementStatus {
+  achievement: Achievement;
+  progress: AchievementProgress;
+  unlocked: boolean;
+}
+
 // ============= Organization Types =============
 
 export interface Organization {
@@ -368,13 +434,130 @@ export interface Address {
 
 export interface ReminderContext {
   lastActivityTime: Date;
-  codeInputFrequency: number;
+  codeInputFrequency: number; // typed characters per minute
   lastCommitTime?: Date;
   isDebugging: boolean;
+  isZenMode: boolean;
+  isLiveShare: boolean;
+  isPairing: boolean;
+  isTerminalHeavy: boolean;
+  isTaskRunning: boolean;
+  flowScore: number; // 0-100
+  isInFlow: boolean;
   consecutiveWorkMinutes: number;
   todayBreakCount: number;
 }
 
+export type EditorContextKind = 'zenMode' | 'liveShare' | 'pairing' | 'terminalHeavy' | 'tasksRunning';
+
+export type ContextBehavior = 'none' | 'suppress' | 'defer';
+
+export type ReminderSeverity = 'light' | 'standard' | 'strong';
+
+export type ReminderContextField =
+  | 'consecutiveWorkMinutes'
+  | 'todayBreakCount'
+  | 'codeInputFrequency'
+  | 'minutesSinceCommit'
+  | 'minutesSinceActivity'
+  | 'isDebugging'
+  | 'isZenMode'
+  | 'isLiveShare'
+  | 'isPairing'
+  | 'isTerminalHeavy'
+  | 'isTaskRunning'
+  | 'flowScore'
+  | 'isInFlow';
+
+export interface ReminderCondition {
+  field: ReminderContextField;
+  op: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  value: number | boolean;
+}
+
+export interface ReminderRule {
+  id: string;
+  description?: string;
+  action: 'remind' | 'suppress';
+  when: ReminderCondition[]; // all conditions must match
+  severity?: ReminderSeverity;
+  cooldownMinutes?: number;
+  probability?: number; // 0-1, chance that a matching rule fires
+}
+
+export interface ReminderPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  rules: ReminderRule[]; // evaluated in order, first match wins
+}
+
+export interface ReminderDecision {
+  fire: boolean;
+  suppressed?: boolean; // a suppress rule matched
+  severity?: ReminderSeverity;
+  policyId: string;
+  ruleId?: string;
+  trace: string[];
+}
+
+export interface QueuedReminder {
+  id: string;
+  source: 'policy' | 'post-commit' | 'work-mode';
+  severity: ReminderSeverity;
+  message: string;
+  actions: string[];
+  recommendedExerciseId?: string;
+  createdAt: Date;
+  escalatedAt?: Date;
+  escalation: number;
+}
+
+export type ReminderOutcome = 'shown' | 'ignored' | 'snoozed' | 'accepted';
+
+export type SnoozeKind = 'duration' | 'time' | 'tomorrow' | 'meeting' | 'commit' | 'debug';
+
+export interface SnoozeState {
+  kind: SnoozeKind;
+  startedAt: Date;
+  until?: Date; // absent for snoozes that end with an event (next commit, end of debug session)
+}
+
+export interface ReminderHistoryEntry {
+  id: string;
+  source: QueuedReminder['source'];
+  severity: ReminderSeverity;
+  escalation: number; // 0 for the first attempt, +1 for each retry after an ignore
+  shownAt: Date;
+  outcome: ReminderOutcome;
+  resolvedAt?: Date;
+}
+
+export interface ReminderInboxEntry {
+  id: string;
+  severity: ReminderSeverity;
+  message: string;
+  recommendedExerciseId?: string;
+  createdAt: Date;
+  reviewed: boolean;
+}
+
+export type WorkMode = 'pomodoro' | 'freeform' | 'deepWork';
+
+export type WorkModePhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export interface WorkModeState {
+  mode: WorkMode;
+  phase: WorkModePhase;
+  phaseStartedAt: Date;
+  phaseEndsAt: Date;
+  cycle: number; // focus blocks completed in the current Pomodoro set
+  completedToday: number; // focus blocks completed today
+  date: string; // yyyy-MM-dd of completedToday
+  heldReminders: number; // Deep Work: reminders batched during the current block
+  heldSeverity?: ReminderSeverity;
+}
+
 export interface WorkContext {
   userId: string;
   teamId?: string;
@@ -401,6 +584,7 @@ export interface Level {
 export interface DailyQuest {
   id: string;
   date: Date;
+  difficulty?: QuestDifficulty;
   tasks: QuestTask[];
   totalXP: number;
   completed: boolean;
@@ -408,11 +592,46 @@ export interface DailyQuest {
 
 export interface QuestTask {
   id: string;
+  kind?: QuestTaskKind; // missing on quests generated before the quest generator
+  params?: QuestTaskParams;
   description: string;
   target: number;
   current: number;
   xp: number;
   completed: boolean;
+  failed?: boolean; // sitting tasks fail once a stretch runs over the limit
+  exerciseIds?: string[]; // variety tasks: distinct exercises done so far
+}
+
+export type QuestDifficulty = 'easy' | 'medium' | 'hard';
+
+export type ChallengePeriod = 'week' | 'month';
+
+/** A local weekly or monthly challenge, tracked like a quest task */
+export interface PersonalChallenge extends QuestTask {
+  period: ChallengePeriod;
+  startDate: Date;
+  endDate: Date; // exclusive
+  completedAt?: Date;
+}
+
+export type QuestTaskKind = 'breaks' | 'window' | 'category' | 'type' | 'variety' | 'post-commit' | 'sitting';
+
+export interface QuestTaskParams {
+  category?: Exercise['category'];
+  exerciseType?: ExerciseType;
+  startHour?: number; // window: inclusive
+  endHour?: number; // window: exclusive
+  minutes?: number; // post-commit: break within N minutes of a commit; sitting: longest allowed stretch
+}
+
+export interface QuestTemplate {
+  id: string;
+  kind: QuestTaskKind;
+  description: string; // {target} is replaced by the target and {s} pluralizes
+  targets: [number, number, number]; // easy, medium, hard
+  xp: [number, number, number];
+  params?: QuestTaskParams;
 }
 
 // ============= Health Metrics =============
@@ -431,6 +650,12 @@ export interface DailyMetrics {
   caloriesBurned: number;
   healthScore: number;
   longestSittingStreak: number;
+  waterGlasses: number;
+  waterTarget: number; // 0 when hydration tracking is off
+  eyeBreaksTaken: number;
+  eyeBreaksRecommended: number;
+  postureChecks: number;
+  postureChecksRecommended: number;
 }
 
 export interface WeeklyMetrics {
@@ -447,6 +672,33 @@ export interface HistoricalMetrics {
   concerns: string[];
 }
 
+export interface CodingSession {
+  start: Date;
+  end: Date;
+}
+
+export interface TimelineEntry {
+  type: 'work' | 'break' | 'idle';
+  start: Date;
+  end: Date;
+  activityId?: string; // absent for implicit breaks (time away from the keyboard)
+}
+
+// ============= Wellness Track Types =============
+
+export type WellnessTrack = 'hydration' | 'eyes' | 'posture';
+
+export interface TrackLogEntry {
+  track: WellnessTrack;
+  at: Date;
+  outcome: 'done' | 'skipped';
+}
+
+export interface DiscomfortCheckIn {
+  reportedAt: Date;
+  issues: string[]; // empty when nothing was bothering the user
+}
+
 export interface TimeSeriesData {
   date: Date;
   value: number;
@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import { Achievement, AchievementStatus } from '../types';
+import { formatProgress } from '../services/AchievementEngine';
+
+const CATEGORIES: Array<{ category: Achievement['category']; title: string }> = [
+  { category: 'streak', title: 'Streaks' },
+  { category: 'milestone', title: 'Milestones' },
+  { category: 'special', title: 'Special' },
+  { category: 'social', title: 'Social' }
+];
+
+const RARITY_COLORS: Record<Achievement['rarity'], string> = {
+  common: '#9ca3af',
+  rare: '#3b82f6',
+  epic: '#a855f7',
+  legendary: '#f59e0b'
+};
+
+/**
+ * Webview listing every achievement with its progress, grouped by category,
+ * with the achievement closest to unlocking at the top
+ */
+export class AchievementsView {
+  private panel?: vscode.WebviewPanel;
+
+  /**
+   * Open the view, or bring it to the front with fresh progress
+   */
+  show(statuses: AchievementStatus[], next?: AchievementStatus): void {
+    if (this.panel) {
+      this.panel.reveal();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'codefitAchievements',
+        'CodeFit Achievements',
+        vscode.ViewColumn.One,
+        {}
+      );
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+      });
+    }
+
+    this.panel.webview.html = this.getHtml(statuses, next);
+  }
+
+  isOpen(): boolean {
+    return !!this.panel;
+  }
+
+  /**
+   * Refresh the view if it is open
+   */
+  update(statuses: AchievementStatus[], next?: AchievementStatus): void {
+    if (this.panel) {
+      this.panel.webview.html = this.getHtml(statuses, next);
+    }
+  }
+
+  private getHtml(statuses: AchievementStatus[], next?: AchievementStatus): string {
+    const unlocked = statuses.filter(s => s.unlocked).length;
+
+    const sections = CATEGORIES
+      .map(({ category, title }) => ({ title, items: statuses.filter(s => s.achievement.category === category) }))
+      .filter(section => section.items.length > 0)
+      .map(section => `
+  <div class="section">
+    <div class="section-title">${section.title}</div>
+    <div class="grid">
+      ${section.items.map(s => this.getCardHtml(s)).join('')}
+    </div>
+  </div>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>CodeFit Achievements</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      padding: 20px;
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+    }
+    .summary {
+      font-size: 14px;
+      opacity: 0.8;
+    }
+    .section {
+      margin: 30px 0;
+    }
+    .section-title {
+      font-size: 20px;
+      font-weight: bold;
+      margin-bottom: 15px;
+    }
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+      gap: 12px;
+    }
+    .card {
+      padding: 15px;
+      background: var(--vscode-editor-inactiveSelectionBackground);
+      border-radius: 8px;
+      border-left: 3px solid transparent;
+    }
+    .card.next {
+      border-left-color: #10b981;
+    }
+    .card.locked .icon {
+      filter: grayscale(1);
+      opacity: 0.5;
+    }
+    .card-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 8px;
+    }
+    .icon {
+      font-size: 28px;
+    }
+    .name {
+      font-weight: bold;
+    }
+    .rarity {
+      font-size: 11px;
+      text-transform: uppercase;
+    }
+    .description {
+      font-size: 13px;
+      opacity: 0.8;
+      margin-bottom: 10px;
+    }
+    .progress-bar {
+      width: 100%;
+      height: 8px;
+      background: var(--vscode-editor-background);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+    .progress-fill {
+      height: 100%;
+      background: #10b981;
+    }
+    .progress-label {
+      display: flex;
+      justify-content: space-between;
+      font-size: 12px;
+      opacity: 0.8;
+      margin-top: 5px;
+    }
+  </style>
+</head>
+<body>
+  <h1>🏆 Achievements</h1>
+  <div class="summary">${unlocked}/${statuses.length} unlocked</div>
+  ${next ? `
+  <div class="section">
+    <div class="section-title">Next Up</div>
+    <div class="grid">${this.getCardHtml(next, true)}</div>
+  </div>` : ''}
+  ${sections}
+</body>
+</html>`;
+  }
+
+  private getCardHtml(status: AchievementStatus, isNext: boolean = false): string {
+    const { achievement, progress, unlocked } = status;
+    const classes = ['card', unlocked ? 'unlocked' : 'locked', isNext ? 'next' : ''].join(' ').trim();
+
+    return `
+      <div class="${classes}">
+        <div class="card-header">
+          <span class="icon">${achievement.icon}</span>
+          <div>
+            <div class="name">${achievement.name}</div>
+            <div class="rarity" style="color: ${RARITY_COLORS[achievement.rarity]}">${achievement.rarity}</div>
+          </div>
+        </div>
+        <div class="description">${achievement.description}</div>
+        <div class="progress-bar">
+          <div class="progress-fill" style="width: ${progress.percent}%"></div>
+        </div>
+        <div class="progress-label">
+          <span>${unlocked ? '✅ Unlocked' : formatProgress(progress)}</span>
+          <span>+${achievement.reward.xp} XP</span>
+        </div>
+      </div>`;
+  }
+}
@@ -0,0 +1,417 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Exercise } from '../types';
+
+export interface StepResult {
+  index: number;
+  elapsedSeconds: number;
+  completed: boolean; // countdown ran to the end
+  skipped: boolean;
+}
+
+export interface ExerciseSessionResult {
+  startedAt: Date;
+  endedAt: Date;
+  elapsedSeconds: number; // active time, pauses excluded
+  steps: StepResult[];
+  stepsCompleted: number;
+  totalSteps: number;
+  stopped: boolean; // stopped or closed before the last step finished
+}
+
+type PlayerMessage =
+  | { command: 'ready' }
+  | { command: 'pause' }
+  | { command: 'resume' }
+  | { command: 'skip' }
+  | { command: 'previous' }
+  | { command: 'stop' };
+
+/**
+ * Guided exercise player webview.
+ *
+ * The step timer runs on the extension side so results stay accurate even
+ * when the webview is hidden; the webview only renders state and sends
+ * control messages.
+ */
+export class ExercisePlayer {
+  private panel?: vscode.WebviewPanel;
+  private timer?: NodeJS.Timeout;
+  private currentIndex = 0;
+  private remaining = 0;
+  private paused = false;
+  private elapsedSeconds = 0;
+  private stepElapsed: number[] = [];
+  private stepResults: Map<number, StepResult> = new Map();
+  private startedAt = new Date();
+  private resolve?: (result: ExerciseSessionResult) => void;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private exercise: Exercise,
+    private title: string = exercise.name
+  ) {}
+
+  /**
+   * Open the player and resolve when the exercise ends
+   */
+  play(): Promise<ExerciseSessionResult> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.startedAt = new Date();
+      this.stepElapsed = this.exercise.steps.map(() => 0);
+
+      this.panel = vscode.window.createWebviewPanel(
+        'codefitExercisePlayer',
+        `CodeFit: ${this.title}`,
+        vscode.ViewColumn.Beside,
+        {
+          enableScripts: true,
+          localResourceRoots: this.getLocalResourceRoots()
+        }
+      );
+
+      this.panel.webview.html = this.getHtml(this.panel.webview);
+
+      this.panel.webview.onDidReceiveMessage((message: PlayerMessage) => {
+        this.handleMessage(message);
+      });
+
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.finish(true);
+      });
+
+      this.startStep(0);
+      this.timer = setInterval(() => this.tick(), 1000);
+    });
+  }
+
+  /**
+   * Handle a control message from the webview
+   */
+  private handleMessage(message: PlayerMessage): void {
+    switch (message.command) {
+      case 'ready':
+        break;
+      case 'pause':
+        this.paused = true;
+        break;
+      case 'resume':
+        this.paused = false;
+        break;
+      case 'skip':
+        this.completeStep(false);
+        return;
+      case 'previous':
+        if (this.currentIndex > 0) {
+          this.startStep(this.currentIndex - 1);
+        } else {
+          this.startStep(0);
+        }
+        break;
+      case 'stop':
+        this.finish(true);
+        return;
+    }
+
+    this.postState();
+  }
+
+  /**
+   * Advance the countdown by one second
+   */
+  private tick(): void {
+    if (this.paused) {
+      return;
+    }
+
+    this.remaining--;
+    this.elapsedSeconds++;
+    this.stepElapsed[this.currentIndex]++;
+
+    if (this.remaining <= 0) {
+      this.completeStep(true);
+    } else {
+      this.postState();
+    }
+  }
+
+  /**
+   * Start (or restart) a step
+   */
+  private startStep(index: number): void {
+    this.currentIndex = index;
+    this.remaining = this.exercise.steps[index].duration;
+    this.stepResults.delete(index);
+    this.postState();
+  }
+
+  /**
+   * Record the current step and move on
+   */
+  private completeStep(completed: boolean): void {
+    const index = this.currentIndex;
+    this.stepResults.set(index, {
+      index,
+      elapsedSeconds: this.stepElapsed[index],
+      completed,
+      skipped: !completed
+    });
+
+    if (index + 1 < this.exercise.steps.length) {
+      this.startStep(index + 1);
+    } else {
+      this.finish(false);
+    }
+  }
+
+  /**
+   * End the session and report results
+   */
+  private finish(stopped: boolean): void {
+    if (!this.resolve) {
+      return;
+    }
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    const steps = Array.from(this.stepResults.values()).sort((a, b) => a.index - b.index);
+    const result: ExerciseSessionResult = {
+      startedAt: this.startedAt,
+      endedAt: new Date(),
+      elapsedSeconds: this.elapsedSeconds,
+      steps,
+      stepsCompleted: steps.filter(s => s.completed).length,
+      totalSteps: this.exercise.steps.length,
+      stopped
+    };
+
+    const resolve = this.resolve;
+    this.resolve = undefined;
+
+    if (this.panel) {
+      const panel = this.panel;
+      this.panel = undefined;
+      panel.dispose();
+    }
+
+    resolve(result);
+  }
+
+  /**
+   * Send the current state to the webview
+   */
+  private postState(): void {
+    const step = this.exercise.steps[this.currentIndex];
+
+    this.panel?.webview.postMessage({
+      command: 'state',
+      index: this.currentIndex,
+      total: this.exercise.steps.length,
+      instruction: step.instruction,
+      duration: step.duration,
+      remaining: this.remaining,
+      paused: this.paused
+    });
+  }
+
+  /**
+   * Folders the webview may load media from
+   */
+  private getLocalResourceRoots(): vscode.Uri[] {
+    const roots = [vscode.Uri.joinPath(this.context.extensionUri, 'media')];
+
+    // Custom exercises may only load media from the folder of their definition file
+    if (this.exercise.sourceFile) {
+      roots.push(vscode.Uri.file(path.dirname(this.exercise.sourceFile)));
+    }
+
+    return roots;
+  }
+
+  /**
+   * Resolve the exercise animation to a webview URI
+   */
+  private getAnimationUri(webview: vscode.Webview): string | undefined {
+    const url = this.exercise.animation?.url;
+    if (!url) {
+      return undefined;
+    }
+
+    if (/^https?:\/\//.test(url)) {
+      return url;
+    }
+
+    // Custom exercises reference media next to their definition file
+    if (path.isAbsolute(url)) {
+      return webview.asWebviewUri(vscode.Uri.file(url)).toString();
+    }
+
+    return webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, url)).toString();
+  }
+
+  /**
+   * Get player HTML
+   */
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = Math.random().toString(36).slice(2);
+    const animationUri = this.getAnimationUri(webview);
+    const animation = !animationUri
+      ? ''
+      : this.exercise.animation.type === 'video'
+        ? `<video class="animation" src="${this.escape(animationUri)}" autoplay loop muted playsinline></video>`
+        : `<img class="animation" src="${this.escape(animationUri)}" alt="${this.escape(this.exercise.name)}">`;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https:; media-src ${webview.cspSource} https:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escape(this.exercise.name)}</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      padding: 20px;
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+      text-align: center;
+    }
+    .step-count {
+      font-size: 14px;
+      opacity: 0.8;
+    }
+    .instruction {
+      font-size: 22px;
+      font-weight: bold;
+      margin: 20px 0;
+      min-height: 60px;
+    }
+    .animation {
+      max-width: 100%;
+      max-height: 240px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .ring {
+      position: relative;
+      width: 160px;
+      height: 160px;
+      margin: 0 auto 20px;
+    }
+    .ring svg {
+      transform: rotate(-90deg);
+    }
+    .ring-track {
+      stroke: var(--vscode-editor-inactiveSelectionBackground);
+    }
+    .ring-progress {
+      stroke: #10b981;
+      transition: stroke-dashoffset 1s linear;
+    }
+    .ring-label {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 36px;
+      font-weight: bold;
+    }
+    .paused .ring-progress {
+      stroke: #f59e0b;
+    }
+    .controls button {
+      margin: 0 5px;
+      padding: 8px 16px;
+      color: var(--vscode-button-foreground);
+      background: var(--vscode-button-background);
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    .controls button:hover {
+      background: var(--vscode-button-hoverBackground);
+    }
+    .controls button.secondary {
+      color: var(--vscode-button-secondaryForeground);
+      background: var(--vscode-button-secondaryBackground);
+    }
+  </style>
+</head>
+<body>
+  <h2>${this.escape(this.title)}</h2>
+  <div class="step-count" id="step-count"></div>
+  <div class="instruction" id="instruction"></div>
+  ${animation}
+  <div class="ring" id="ring">
+    <svg width="160" height="160">
+      <circle class="ring-track" cx="80" cy="80" r="70" fill="none" stroke-width="10"></circle>
+      <circle class="ring-progress" id="ring-progress" cx="80" cy="80" r="70" fill="none" stroke-width="10"
+        stroke-dasharray="439.82" stroke-dashoffset="0"></circle>
+    </svg>
+    <div class="ring-label" id="remaining"></div>
+  </div>
+  <div class="controls">
+    <button class="secondary" id="previous">⏮ Previous</button>
+    <button id="toggle">⏸ Pause</button>
+    <button class="secondary" id="skip">⏭ Skip</button>
+    <button class="secondary" id="stop">⏹ Stop</button>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const circumference = 2 * Math.PI * 70;
+    let paused = false;
+
+    document.querySelectorAll('.animation').forEach(el => {
+      el.addEventListener('error', () => { el.style.display = 'none'; });
+    });
+
+    document.getElementById('previous').addEventListener('click', () => vscode.postMessage({ command: 'previous' }));
+    document.getElementById('skip').addEventListener('click', () => vscode.postMessage({ command: 'skip' }));
+    document.getElementById('stop').addEventListener('click', () => vscode.postMessage({ command: 'stop' }));
+    document.getElementById('toggle').addEventListener('click', () => {
+      vscode.postMessage({ command: paused ? 'resume' : 'pause' });
+    });
+
+    window.addEventListener('message', event => {
+      const state = event.data;
+      if (state.command !== 'state') {
+        return;
+      }
+
+      paused = state.paused;
+      document.getElementById('step-count').textContent = 'Step ' + (state.index + 1) + ' of ' + state.total;
+      document.getElementById('instruction').textContent = state.instruction;
+      document.getElementById('remaining').textContent = state.remaining + 's';
+      document.getElementById('toggle').textContent = paused ? '▶ Resume' : '⏸ Pause';
+      document.getElementById('previous').disabled = state.index === 0 && state.remaining === state.duration;
+      document.getElementById('ring').classList.toggle('paused', paused);
+
+      const fraction = state.duration > 0 ? state.remaining / state.duration : 0;
+      document.getElementById('ring-progress').style.strokeDashoffset = String(circumference * (1 - fraction));
+    });
+
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>
+    `.trim();
+  }
+
+  /**
+   * Escape text for HTML
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
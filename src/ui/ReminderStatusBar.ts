@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { QueuedReminder, SnoozeState } from '../types';
+import { ReminderQueue } from '../services/ReminderQueue';
+import { ReminderInbox } from '../services/ReminderInbox';
+import { HealthReminderService, describeSnooze } from '../services/ReminderService';
+
+const PULSE_INTERVAL_MS = 800;
+const SNOOZE_REFRESH_MS = 30 * 1000;
+
+/**
+ * Status bar item for the statusBar and background reminder styles.
+ *
+ * With the statusBar style it pulses while a reminder is pending and opens
+ * the reminder actions on click; with the background style it shows how many
+ * logged reminders are waiting in the inbox. While reminders are snoozed it
+ * shows the time left, and cancels the snooze on click.
+ */
+export class ReminderStatusBar {
+  private item: vscode.StatusBarItem;
+  private pulseTimer?: NodeJS.Timeout;
+  private pulseOn = false;
+  private snoozeTimer?: NodeJS.Timeout;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private queue: ReminderQueue,
+    private inbox: ReminderInbox,
+    private reminderService: HealthReminderService
+  ) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+    context.subscriptions.push(
+      this.item,
+      queue.onDidChange(() => this.update()),
+      reminderService.onDidChangeSnooze(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('codefit.reminder.style')) {
+          this.update();
+        }
+      })
+    );
+
+    this.update();
+  }
+
+  /**
+   * Refresh the item for the current style and queue state
+   */
+  update(): void {
+    const style = vscode.workspace.getConfiguration('codefit').get<string>('reminder.style', 'toast');
+    const active = this.queue.getActive();
+    const snooze = this.reminderService.getSnooze();
+
+    this.stopPulse();
+    this.stopSnoozeRefresh();
+
+    if (style === 'statusBar' && active) {
+      this.showReminder(active);
+    } else if (snooze) {
+      this.showSnooze(snooze);
+    } else if (style === 'background' && this.inbox.getUnreviewedCount() > 0) {
+      const count = this.inbox.getUnreviewedCount();
+      this.item.text = `$(inbox) ${count}`;
+      this.item.tooltip = `${count} missed break reminder${count === 1 ? '' : 's'}. Click to review.`;
+      this.item.backgroundColor = undefined;
+      this.item.command = 'codefit.openReminderInbox';
+      this.item.show();
+    } else {
+      this.item.hide();
+    }
+  }
+
+  dispose(): void {
+    this.stopPulse();
+    this.stopSnoozeRefresh();
+    this.item.dispose();
+  }
+
+  /**
+   * Show the snooze reason and time left; clicking cancels the snooze
+   */
+  private showSnooze(snooze: SnoozeState): void {
+    const left = snooze.until ? this.formatTimeLeft(snooze.until.getTime() - Date.now()) : undefined;
+
+    this.item.text = `$(bell-slash) ${left || 'Snoozed'}`;
+    this.item.tooltip = [
+      `Reminders snoozed ${describeSnooze(snooze)}`,
+      ...(left ? [`${left} left`] : []),
+      '',
+      'Click to cancel the snooze'
+    ].join('\n');
+    this.item.backgroundColor = undefined;
+    this.item.command = 'codefit.cancelSnooze';
+    this.item.show();
+
+    // Count down, and fall back to the normal item when the snooze runs out
+    this.snoozeTimer = setInterval(() => this.update(), SNOOZE_REFRESH_MS);
+  }
+
+  private formatTimeLeft(ms: number): string {
+    const minutes = Math.max(1, Math.ceil(ms / 60000));
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  }
+
+  private stopSnoozeRefresh(): void {
+    if (this.snoozeTimer) {
+      clearInterval(this.snoozeTimer);
+      this.snoozeTimer = undefined;
+    }
+  }
+
+  /**
+   * Show a pending reminder, pulsing between the bell icons
+   */
+  private showReminder(reminder: QueuedReminder): void {
+    const label = reminder.severity === 'strong' ? 'Break now!' : 'Break time';
+    this.item.tooltip = `${reminder.message}\n\nClick for options`;
+    this.item.command = 'codefit.showReminderActions';
+    this.item.backgroundColor = new vscode.ThemeColor(
+      reminder.severity === 'light' ? 'statusBarItem.warningBackground' : 'statusBarItem.errorBackground'
+    );
+
+    const render = () => {
+      this.item.text = `$(${this.pulseOn ? 'bell-dot' : 'bell'}) ${label}`;
+      // Light reminders only pulse the icon; stronger ones also flash the background
+      if (reminder.severity !== 'light') {
+        this.item.backgroundColor = this.pulseOn
+          ? new vscode.ThemeColor('statusBarItem.errorBackground')
+          : new vscode.ThemeColor('statusBarItem.warningBackground');
+      }
+      this.pulseOn = !this.pulseOn;
+    };
+
+    render();
+    this.pulseTimer = setInterval(render, PULSE_INTERVAL_MS);
+    this.item.show();
+  }
+
+  private stopPulse(): void {
+    if (this.pulseTimer) {
+      clearInterval(this.pulseTimer);
+      this.pulseTimer = undefined;
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { HealthTracker } from '../services/HealthTracker';
+import { GamificationService } from '../services/GamificationService';
+import { formatProgress } from '../services/AchievementEngine';
 
 export class HealthStatusBar {
   private statusBarItem: vscode.StatusBarItem;
@@ -7,7 +9,8 @@ export class HealthStatusBar {
 
   constructor(
     private context: vscode.ExtensionContext,
-    private healthTracker: HealthTracker
+    private healthTracker: HealthTracker,
+    private gamificationService: GamificationService
   ) {
     // Create status bar item
     this.statusBarItem = vscode.window.createStatusBarItem(
@@ -67,7 +70,7 @@ export class HealthStatusBar {
     this.statusBarItem.backgroundColor = this.getBackgroundColor(stats.healthScore);
 
     // Update tooltip
-    this.statusBarItem.tooltip = this.generateTooltip(stats, metrics);
+    this.statusBarItem.tooltip = this.generateTooltip(stats, metrics, gamificationEnabled);
 
     this.statusBarItem.show();
   }
@@ -103,15 +106,21 @@ export class HealthStatusBar {
   /**
    * Generate tooltip text
    */
-  private generateTooltip(stats: any, metrics: any): string {
+  private generateTooltip(stats: any, metrics: any, gamificationEnabled: boolean): string {
+    const next = gamificationEnabled ? this.gamificationService.getNextAchievement() : undefined;
+    const nextLine = next
+      ? `\nNext Achievement: ${next.achievement.icon} ${next.achievement.name} (${formatProgress(next.progress)})`
+      : '';
+
     return `
 CodeFit Health Status
 ━━━━━━━━━━━━━━━━━━━━
 Health Score: ${stats.healthScore}/100
 Streak: ${stats.streak} days
+Coding Today: ${metrics.today.codingTime} min
 Today's Breaks: ${metrics.today.breaksTaken}/${metrics.today.breaksRecommended}
 Exercise Time: ${metrics.today.exerciseDuration} min
-Level: ${stats.level} (${stats.xp} XP)
+Level: ${stats.level} (${stats.xp} XP)${nextLine}
 
 Click to view dashboard
     `.trim();
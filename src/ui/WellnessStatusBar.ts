@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { WellnessTrack } from '../types';
+import { HealthTracker } from '../services/HealthTracker';
+import { WellnessTrackService } from '../services/WellnessTrackService';
+
+const COMMANDS: Record<WellnessTrack, string> = {
+  hydration: 'codefit.logWater',
+  eyes: 'codefit.takeEyeBreak',
+  posture: 'codefit.logPostureCheck'
+};
+
+/**
+ * Status bar counters for the hydration, eye break and posture tracks.
+ * Each item is hidden while its track is turned off.
+ */
+export class WellnessStatusBar {
+  private items = new Map<WellnessTrack, vscode.StatusBarItem>();
+  private updateInterval?: NodeJS.Timeout;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private tracks: WellnessTrackService,
+    private healthTracker: HealthTracker
+  ) {
+    (['hydration', 'eyes', 'posture'] as WellnessTrack[]).forEach((track, index) => {
+      const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99 - index);
+      item.command = COMMANDS[track];
+      this.items.set(track, item);
+      context.subscriptions.push(item);
+    });
+
+    context.subscriptions.push(
+      tracks.onDidChange(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (['codefit.hydration', 'codefit.eyeBreaks', 'codefit.posture'].some(s => event.affectsConfiguration(s))) {
+          this.update();
+        }
+      })
+    );
+
+    // Recommended counts grow with coding time
+    this.updateInterval = setInterval(() => this.update(), 60000);
+    this.update();
+  }
+
+  /**
+   * Refresh the counters from today's metrics
+   */
+  update(): void {
+    const today = this.healthTracker.getHealthMetrics().today;
+
+    this.render('hydration', `💧 ${today.waterGlasses}/${today.waterTarget}`, [
+      `Hydration: ${today.waterGlasses} of ${today.waterTarget} glasses today`,
+      '',
+      'Click to log a glass of water'
+    ]);
+    this.render('eyes', `$(eye) ${today.eyeBreaksTaken}/${today.eyeBreaksRecommended}`, [
+      `20-20-20 eye breaks today: ${today.eyeBreaksTaken} (${today.eyeBreaksRecommended} due so far)`,
+      '',
+      'Click for a guided eye exercise'
+    ]);
+    this.render('posture', `🧍 ${today.postureChecks}/${today.postureChecksRecommended}`, [
+      `Posture checks today: ${today.postureChecks} (${today.postureChecksRecommended} due so far)`,
+      '',
+      'Click to log a posture check'
+    ]);
+  }
+
+  dispose(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+    this.items.forEach(item => item.dispose());
+  }
+
+  private render(track: WellnessTrack, text: string, tooltip: string[]): void {
+    const item = this.items.get(track);
+    if (!item) {
+      return;
+    }
+
+    if (!this.tracks.isEnabled(track)) {
+      item.hide();
+      return;
+    }
+
+    item.text = text;
+    item.tooltip = tooltip.join('\n');
+    item.show();
+  }
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { WorkModeState } from '../types';
+import { WorkModeService } from '../services/WorkModeService';
+
+const RENDER_INTERVAL_MS = 1000;
+
+/**
+ * Status bar timer for the Pomodoro and Deep Work modes, with cycle counts.
+ * Hidden in freeform mode.
+ */
+export class WorkModeStatusBar {
+  private item: vscode.StatusBarItem;
+  private renderTimer?: NodeJS.Timeout;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private workMode: WorkModeService
+  ) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 102);
+    this.item.command = 'codefit.selectWorkMode';
+    context.subscriptions.push(this.item, workMode.onDidChange(() => this.update()));
+
+    this.update();
+  }
+
+  /**
+   * Show or hide the timer for the current mode
+   */
+  update(): void {
+    const state = this.workMode.getState();
+
+    if (!state) {
+      this.stopRendering();
+      this.item.hide();
+      return;
+    }
+
+    this.render(state);
+    this.item.show();
+
+    if (!this.renderTimer) {
+      this.renderTimer = setInterval(() => {
+        const current = this.workMode.getState();
+        if (current) {
+          this.render(current);
+        }
+      }, RENDER_INTERVAL_MS);
+    }
+  }
+
+  dispose(): void {
+    this.stopRendering();
+    this.item.dispose();
+  }
+
+  private render(state: WorkModeState): void {
+    const remaining = this.workMode.getRemainingSeconds();
+    const time = `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`;
+    const onBreak = state.phase !== 'focus';
+    const cycles = vscode.workspace.getConfiguration('codefit').get<number>('pomodoro.cyclesBeforeLongBreak', 4);
+
+    if (state.mode === 'pomodoro') {
+      this.item.text = onBreak
+        ? `$(coffee) ${time}  🍅 ${state.completedToday}`
+        : `🍅 ${time}  ${state.cycle + 1}/${cycles}`;
+      this.item.tooltip = [
+        onBreak ? `Pomodoro ${state.phase === 'longBreak' ? 'long break' : 'break'}: ${time} left` : `Pomodoro focus: ${time} left`,
+        `Pomodoros today: ${state.completedToday}`,
+        '',
+        'Click to restart, skip or change work mode'
+      ].join('\n');
+    } else {
+      const held = state.heldReminders > 0 ? `  $(bell-slash) ${state.heldReminders}` : '';
+      this.item.text = onBreak ? `$(coffee) ${time}` : `🧠 ${time}${held}`;
+      this.item.tooltip = [
+        onBreak ? `Deep work break: ${time} left` : `Deep work block: ${time} left`,
+        `Reminders held back: ${state.heldReminders}`,
+        `Blocks today: ${state.completedToday}`,
+        '',
+        'Click to restart, skip or change work mode'
+      ].join('\n');
+    }
+
+    this.item.backgroundColor = onBreak ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+  }
+
+  private stopRendering(): void {
+    if (this.renderTimer) {
+      clearInterval(this.renderTimer);
+      this.renderTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Injectable time and randomness so reminder, tracking and gamification
+ * logic can be replayed deterministically.
+ */
+
+export interface TimerHandle {
+  cancel(): void;
+}
+
+export interface Clock {
+  now(): Date;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+}
+
+export interface RandomSource {
+  /** Returns a number in [0, 1) */
+  next(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => {
+    const id = setInterval(callback, ms);
+    return { cancel: () => clearInterval(id) };
+  },
+  setTimeout: (callback, ms) => {
+    const id = setTimeout(callback, ms);
+    return { cancel: () => clearTimeout(id) };
+  }
+};
+
+export const mathRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Seeded random source (mulberry32) for reproducible runs
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return {
+    next: () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+  };
+}
+
+/**
+ * Clock that only moves when advanced, firing due timers in order
+ */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: Array<{ id: number; due: number; interval?: number; callback: () => void }> = [];
+  private nextId = 1;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms, ms);
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms);
+  }
+
+  /**
+   * Move time forward, firing every timer that falls due on the way
+   */
+  advance(ms: number): void {
+    const target = this.current + ms;
+
+    for (;;) {
+      const due = this.timers
+        .filter(t => t.due <= target)
+        .sort((a, b) => a.due - b.due || a.id - b.id)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.current = due.due;
+      if (due.interval) {
+        due.due += due.interval;
+      } else {
+        this.timers = this.timers.filter(t => t !== due);
+      }
+      due.callback();
+    }
+
+    this.current = target;
+  }
+
+  private addTimer(callback: () => void, ms: number, interval?: number): TimerHandle {
+    const timer = { id: this.nextId++, due: this.current + Math.max(1, ms), interval, callback };
+    this.timers.push(timer);
+    return { cancel: () => { this.timers = this.timers.filter(t => t !== timer); } };
+  }
+}
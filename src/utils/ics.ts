@@ -0,0 +1,355 @@
+import { getZonedTime, isValidTimeZone, zonedTimeToDate } from './timezone';
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for Do Not Disturb windows.
+ *
+ * Reads VEVENT start/end times (UTC, TZID or floating, and all-day dates),
+ * DURATION, EXDATE and DAILY/WEEKLY RRULEs. Other recurrence frequencies are
+ * treated as a single occurrence.
+ */
+
+export interface CalendarEvent {
+  summary: string;
+  start: Date;
+  end: Date;
+  timeZone: string;
+  wallTime: { year: number; month: number; day: number; hours: number; minutes: number; seconds: number };
+  recurrence?: RecurrenceRule;
+  exdates: number[];
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay?: number[];
+  until?: Date;
+  count?: number;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateValue {
+  date: Date;
+  timeZone: string;
+  wallTime: CalendarEvent['wallTime'];
+  allDay: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse the events of an .ics file; floating and all-day times use the given time zone
+ */
+export function parseIcs(text: string, defaultTimeZone: string): CalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: IcsProperty[] | undefined;
+  let nested = 0;
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      if (property.value === 'VEVENT') {
+        current = [];
+      } else if (current) {
+        nested++;
+      }
+    } else if (property.name === 'END') {
+      if (property.value === 'VEVENT' && current) {
+        const event = buildEvent(current, defaultTimeZone);
+        if (event) {
+          events.push(event);
+        }
+        current = undefined;
+        nested = 0;
+      } else if (current && nested > 0) {
+        nested--;
+      }
+    } else if (current && nested === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Find the event (or recurrence of one) in progress at a given time
+ */
+export function findEventAt(events: CalendarEvent[], date: Date): CalendarEvent | undefined {
+  return events.find(event => occursAt(event, date));
+}
+
+/**
+ * Check whether an event, or one of its recurrences, is in progress at a given time
+ */
+export function occursAt(event: CalendarEvent, date: Date): boolean {
+  return getOccurrenceAt(event, date) !== undefined;
+}
+
+/**
+ * Get the occurrence of an event that is in progress at a given time, if any
+ */
+export function getOccurrenceAt(event: CalendarEvent, date: Date): { start: Date; end: Date } | undefined {
+  const time = date.getTime();
+  const duration = event.end.getTime() - event.start.getTime();
+
+  if (time < event.start.getTime()) {
+    return undefined;
+  }
+
+  const rule = event.recurrence;
+  if (!rule) {
+    return time < event.end.getTime() ? { start: event.start, end: event.end } : undefined;
+  }
+
+  const startDay = dayNumber(event.wallTime.year, event.wallTime.month, event.wallTime.day);
+  const startWeekday = new Date(startDay * DAY_MS).getUTCDay();
+  const zoned = getZonedTime(date, event.timeZone);
+  const today = dayNumber(zoned.year, zoned.month, zoned.day);
+
+  // Only occurrences starting within the event duration before now can be in progress
+  for (let back = 0; back <= Math.ceil(duration / DAY_MS); back++) {
+    const offset = today - back - startDay;
+    if (offset < 0 || !matchesRule(rule, offset, startWeekday)) {
+      continue;
+    }
+
+    const day = new Date((startDay + offset) * DAY_MS);
+    const occurrence = zonedTimeToDate(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      event.wallTime.hours,
+      event.wallTime.minutes,
+      event.wallTime.seconds,
+      event.timeZone
+    ).getTime();
+
+    if (occurrence > time || occurrence + duration <= time) {
+      continue;
+    }
+    if (rule.until && occurrence > rule.until.getTime()) {
+      continue;
+    }
+    if (event.exdates.includes(occurrence)) {
+      continue;
+    }
+    if (rule.count !== undefined && countOccurrences(rule, offset, startWeekday) > rule.count) {
+      continue;
+    }
+
+    return { start: new Date(occurrence), end: new Date(occurrence + duration) };
+  }
+
+  return undefined;
+}
+
+function buildEvent(properties: IcsProperty[], defaultTimeZone: string): CalendarEvent | undefined {
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  const status = get('STATUS')?.value.toUpperCase();
+  const transparency = get('TRANSP')?.value.toUpperCase();
+  if (status === 'CANCELLED' || transparency === 'TRANSPARENT') {
+    return undefined;
+  }
+
+  const startProperty = get('DTSTART');
+  const start = startProperty ? parseDateValue(startProperty, defaultTimeZone) : undefined;
+  if (!start) {
+    return undefined;
+  }
+
+  let end: Date | undefined;
+  const endProperty = get('DTEND');
+  const durationProperty = get('DURATION');
+  if (endProperty) {
+    end = parseDateValue(endProperty, defaultTimeZone)?.date;
+  } else if (durationProperty) {
+    const duration = parseDuration(durationProperty.value);
+    end = duration !== undefined ? new Date(start.date.getTime() + duration) : undefined;
+  } else if (start.allDay) {
+    end = new Date(start.date.getTime() + DAY_MS);
+  }
+
+  if (!end || end.getTime() <= start.date.getTime()) {
+    return undefined;
+  }
+
+  const exdates = properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(value => parseDateValue({ ...p, value }, defaultTimeZone)))
+    .filter((value): value is IcsDateValue => value !== undefined)
+    .map(value => value.date.getTime());
+
+  const rruleProperty = get('RRULE');
+
+  return {
+    summary: get('SUMMARY')?.value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ') || 'Busy',
+    start: start.date,
+    end,
+    timeZone: start.timeZone,
+    wallTime: start.wallTime,
+    recurrence: rruleProperty ? parseRecurrence(rruleProperty.value, defaultTimeZone) : undefined,
+    exdates
+  };
+}
+
+function parseProperty(line: string): IcsProperty | undefined {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon < 0) {
+    return undefined;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+function parseDateValue(property: IcsProperty, defaultTimeZone: string): IcsDateValue | undefined {
+  const value = property.value.trim();
+
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    return {
+      date: zonedTimeToDate(year, month, day, 0, 0, 0, defaultTimeZone),
+      timeZone: defaultTimeZone,
+      wallTime: { year, month, day, hours: 0, minutes: 0, seconds: 0 },
+      allDay: true
+    };
+  }
+
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!dateTime) {
+    return undefined;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = dateTime.slice(1, 7).map(Number);
+  const wallTime = { year, month, day, hours, minutes, seconds };
+
+  if (dateTime[7] === 'Z') {
+    return {
+      date: new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)),
+      timeZone: 'UTC',
+      wallTime,
+      allDay: false
+    };
+  }
+
+  const tzid = property.params.TZID;
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone;
+
+  return {
+    date: zonedTimeToDate(year, month, day, hours, minutes, seconds, timeZone),
+    timeZone,
+    wallTime,
+    allDay: false
+  };
+}
+
+function parseDuration(value: string): number | undefined {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part || 0));
+  const total = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+
+  return match[1] === '-' ? -total : total;
+}
+
+function parseRecurrence(value: string, defaultTimeZone: string): RecurrenceRule | undefined {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue = ''] = part.split('=');
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') {
+    return undefined;
+  }
+
+  const byDay = parts.BYDAY
+    ?.split(',')
+    .map(code => WEEKDAY_CODES.indexOf(code.replace(/^[+-]?\d+/, '')))
+    .filter(index => index >= 0);
+
+  const until = parts.UNTIL
+    ? parseDateValue({ name: 'UNTIL', params: {}, value: parts.UNTIL }, defaultTimeZone)
+    : undefined;
+
+  return {
+    freq: parts.FREQ,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    byDay: byDay && byDay.length > 0 ? byDay : undefined,
+    // A date-only UNTIL includes that whole day
+    until: until ? new Date(until.date.getTime() + (until.allDay ? DAY_MS - 1 : 0)) : undefined,
+    count: parts.COUNT ? Number(parts.COUNT) : undefined
+  };
+}
+
+/**
+ * Check whether the day `offset` days after the event start is an occurrence day
+ */
+function matchesRule(rule: RecurrenceRule, offset: number, startWeekday: number): boolean {
+  if (rule.freq === 'DAILY') {
+    return offset % rule.interval === 0;
+  }
+
+  const weekday = (startWeekday + offset) % 7;
+  if (!(rule.byDay || [startWeekday]).includes(weekday)) {
+    return false;
+  }
+
+  // Weeks start on Monday (the RFC 5545 default WKST)
+  const week = Math.floor((offset + (startWeekday + 6) % 7) / 7);
+  return week % rule.interval === 0;
+}
+
+/**
+ * Number of occurrence days from the event start up to and including `offset`
+ */
+function countOccurrences(rule: RecurrenceRule, offset: number, startWeekday: number): number {
+  let count = 0;
+  for (let i = 0; i <= offset && count <= (rule.count || 0); i++) {
+    if (matchesRule(rule, i, startWeekday)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function dayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
@@ -0,0 +1,108 @@
+/**
+ * Wall-clock helpers for IANA time zones, built on Intl so no tz database
+ * has to be bundled.
+ */
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  minutes: number; // minutes since midnight
+  dateKey: string; // yyyy-MM-dd
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check whether a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The system time zone
+ */
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+
+  return {
+    year,
+    month,
+    day,
+    weekday: WEEKDAY_INDEX[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`
+  };
+}
+
+/**
+ * The instant at which a wall-clock time occurs in a time zone
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Correct by the zone offset, then once more in case the guess crossed a DST change
+  let instant = wallClock - getOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getOffset(new Date(instant), timeZone);
+
+  return new Date(instant);
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const zoned = getZonedTime(date, timeZone);
+  const seconds = date.getUTCSeconds();
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, Math.floor(zoned.minutes / 60), zoned.minutes % 60, seconds);
+
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}